@@ -1,149 +1,184 @@
 import {
   App,
+  Component,
+  Debouncer,
+  DropdownComponent,
   Editor,
+  FuzzySuggestModal,
+  Keymap,
+  MarkdownRenderChild,
   MarkdownView,
+  Menu,
   Modal,
   Notice,
   Plugin,
   PluginSettingTab,
   Setting,
+  TAbstractFile,
+  TFile,
+  debounce,
 } from "obsidian";
-
-interface WordCloudSettings {
-  minFontSize: number;
-  maxFontSize: number;
-  colorPalette: string[];
-  separator: string;
-  spacing: "compact" | "normal" | "comfortable" | "loose";
-  autoFontSize: boolean;
-  autoSpacing: boolean;
-  casing: "as-is" | "uppercase" | "lowercase" | "title-case";
-}
-
-const DEFAULT_SETTINGS: WordCloudSettings = {
-  minFontSize: 12,
-  maxFontSize: 48,
-  colorPalette: ["#0066cc", "#cc6600", "#cc0066", "#6600cc", "#00cc66"],
-  separator: ",",
-  spacing: "normal",
-  autoFontSize: true,
-  autoSpacing: true,
-  casing: "as-is",
-};
-
-// Spacing configurations
-const SPACING_CONFIG = {
-  compact: { padding: 3, margin: 5, startRadius: 1, spiralStep: 1.5 },
-  normal: { padding: 12, margin: 12, startRadius: 5, spiralStep: 4 },
-  comfortable: { padding: 22, margin: 18, startRadius: 12, spiralStep: 7 },
-  loose: { padding: 35, margin: 25, startRadius: 20, spiralStep: 10 },
+import { ColorMode, THEME_COLORS } from "./src/colors";
+import { exportCloud } from "./src/export";
+import { Direction, nearestInDirection } from "./src/geometry";
+import {
+  SPACING_CONFIG,
+  LayoutOptions,
+  LayoutResult,
+  Placement,
+  SpacingConfig,
+  getAutoFontSizes,
+  getAutoSpacing,
+  layoutWords,
+  shrinkLayout,
+} from "./src/layout";
+import {
+  CASINGS,
+  COLOR_MODES,
+  CloudConfig,
+  SPACINGS,
+  findCloudBlocks,
+  findCloudSections,
+  getBlockOption,
+  parseAspectRatio,
+  parseCloudBlock,
+  removeBlockOption,
+  resolveCloudConfig,
+  setBlockOption,
+} from "./src/options";
+import {
+  NamedPalette,
+  PRESET_PALETTES,
+  exportPalettes,
+  findPalette,
+  importPalettes,
+  uniquePaletteName,
+} from "./src/palettes";
+import { createRandomSeed, createSeededRandom, hashSeed } from "./src/random";
+import {
+  DrawWordFn,
+  WORD_SELECTOR,
+  clearCloud,
+  createCanvasMeasure,
+  createCloudAnnouncer,
+  createSvgCloud,
+  createWordList,
+  highlightGroup,
+  renderEditButton,
+  renderHiddenBadge,
+  renderHistoryBar,
+  renderLegend,
+  renderWord,
+  resolveCssColors,
+  setCloudTypography,
+} from "./src/renderer";
+import {
+  AUTO_SEPARATOR,
+  describeListFormat,
+  detectSeparator,
+  formatList,
+  readList,
+} from "./src/lists";
+import { RotationMode, parseAngleRange, parseAngles } from "./src/rotation";
+import {
+  ClickAction,
+  DEFAULT_SETTINGS,
+  HeightMode,
+  JournalTarget,
+  OverflowStrategy,
+  RendererMode,
+  WordCloudSettings,
+} from "./src/settings";
+import {
+  SHAPE_NAMES,
+  ShapeMask,
+  ShapeName,
+  createShapeMask,
+} from "./src/shapes";
+import { loadImageMask } from "./src/imagemask";
+import {
+  collectFileEntries,
+  collectTagEntries,
+  collectWordFrequencies,
+  resolveListFile,
+} from "./src/sources";
+import {
+  Typography,
+  loadFonts,
+  parseFontWeights,
+  parseLetterSpacing,
+} from "./src/typography";
+import {
+  SizeScale,
+  WordEntry,
+  applyCasing,
+  mergeWordEntries,
+  pickWeightedEntry,
+} from "./src/words";
+import {
+  ColumnOptions,
+  LIST_EXTENSIONS,
+  clipboardEntries,
+  csvEntries,
+  detectCsvDelimiter,
+  fileListEntries,
+  looksLikeHeader,
+  parseCsv,
+} from "./src/wordlists";
+import {
+  logWordToJournal,
+  openGlobalSearch,
+  openNoteForWord,
+  replaceCodeBlockSource,
+} from "./src/workspace";
+
+// How many times a cloud is laid out again when words don't fit
+const OVERFLOW_RETRIES = 3;
+
+// How long word placement may block the main thread before yielding
+const LAYOUT_SLICE_MS = 12;
+
+const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowLeft: "left",
+  ArrowRight: "right",
+  ArrowUp: "up",
+  ArrowDown: "down",
 };
 
-type SpacingConfig = typeof SPACING_CONFIG["normal"];
-
-// Auto-calculated spacing based on word count and screen size
-function getAutoSpacing(
-  wordCount: number,
-  isMobile: boolean = false
-): SpacingConfig {
-  if (isMobile) {
-    if (wordCount <= 10) return SPACING_CONFIG["comfortable"];
-    else if (wordCount <= 20) return SPACING_CONFIG["normal"];
-    else return SPACING_CONFIG["compact"];
-  }
-  if (wordCount <= 10) return SPACING_CONFIG["loose"];
-  else if (wordCount <= 20) return SPACING_CONFIG["comfortable"];
-  else if (wordCount <= 40) return SPACING_CONFIG["normal"];
-  else return SPACING_CONFIG["compact"];
-}
-
-// Apply casing transformation to text
-function applyCasing(
-  text: string,
-  casing: "as-is" | "uppercase" | "lowercase" | "title-case"
-): string {
-  switch (casing) {
-    case "uppercase":
-      return text.toUpperCase();
-    case "lowercase":
-      return text.toLowerCase();
-    case "title-case": {
-      const words = text.toLowerCase().split(" ");
-      if (words.length === 1) {
-        return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
-      } else {
-        const smallWords = [
-          "a",
-          "an",
-          "and",
-          "as",
-          "at",
-          "but",
-          "by",
-          "for",
-          "in",
-          "of",
-          "on",
-          "or",
-          "the",
-          "to",
-          "with",
-        ];
-        return words
-          .map((word, index) => {
-            if (
-              index === 0 ||
-              index === words.length - 1 ||
-              !smallWords.includes(word)
-            ) {
-              return word.charAt(0).toUpperCase() + word.slice(1);
-            }
-            return word;
-          })
-          .join(" ");
-      }
-    }
-    case "as-is":
-    default:
-      return text;
-  }
-}
-
-// Auto-calculated font sizes based on word count and screen size
-function getAutoFontSizes(
-  wordCount: number,
-  isMobile: boolean = false
-): { min: number; max: number } {
-  if (isMobile) {
-    if (wordCount <= 10) return { min: 14, max: 32 };
-    else if (wordCount <= 20) return { min: 12, max: 26 };
-    else if (wordCount <= 40) return { min: 10, max: 20 };
-    else if (wordCount <= 70) return { min: 9, max: 16 };
-    else return { min: 8, max: 14 };
-  }
-  if (wordCount <= 10) return { min: 20, max: 56 };
-  else if (wordCount <= 20) return { min: 16, max: 40 };
-  else if (wordCount <= 40) return { min: 14, max: 32 };
-  else if (wordCount <= 70) return { min: 12, max: 28 };
-  else return { min: 10, max: 22 };
-}
-
-interface PlacedRect {
-  centerX: number;
-  centerY: number;
-  width: number;
-  height: number;
-  rotation: number;
-}
-
-interface WordData {
-  width: number;
-  height: number;
-  fontSize: number;
-  color: string;
-  rotation: number;
-  word: string;
-  isCentered: boolean;
+// Longest a cloud waits for its fonts before measuring with what it has
+const FONT_LOAD_TIMEOUT_MS = 3000;
+
+// Wait for a list file to settle before drawing its cloud again
+const SOURCE_DEBOUNCE_MS = 500;
+
+// Wait for typing to pause before redrawing the modal's preview
+const PREVIEW_DEBOUNCE_MS = 400;
+
+// How many centered words a cloud remembers
+const MAX_HISTORY = 50;
+
+// Wait for a resize to settle before laying a cloud out again
+const RESIZE_DEBOUNCE_MS = 200;
+
+// Smallest height of clouds sized by aspect ratio or by the pane
+const MIN_HEIGHT = 200;
+// Room left for text around a cloud that fills the pane
+const FILL_MARGIN = 80;
+
+interface RenderOptions {
+  sourcePath?: string;
+  // Overrides the block's seed, e.g. after rolling a new one in the modal
+  seed?: number;
+  // Writes changed block text back to where the block came from
+  updateSource?: (source: string) => Promise<void>;
+  // Keeps the cloud sized to its container, and in step with its list
+  // file, while the component is loaded. Unloading it stops a layout that
+  // is still running.
+  component?: Component;
+  // Modal previews don't log chosen words to the journal
+  preview?: boolean;
+  // Opens the block in the modal, from a button on the cloud
+  edit?: () => void;
 }
 
 export default class WordCloudPlugin extends Plugin {
@@ -164,36 +199,395 @@ export default class WordCloudPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "edit-cloud",
+      name: "Edit word cloud",
+      editorCallback: (editor: Editor, view: MarkdownView) => {
+        const line = editor.getCursor().line;
+        const sections = findCloudSections(editor.getValue());
+        // The cloud under the cursor, or the note's only cloud
+        const section =
+          sections.find((s) => line >= s.lineStart && line <= s.lineEnd) ||
+          (sections.length === 1 ? sections[0] : undefined);
+        if (!section) {
+          new Notice(
+            sections.length === 0
+              ? "No word cloud in this note"
+              : "Place the cursor in the word cloud to edit"
+          );
+          return;
+        }
+
+        new WordCloudModal(this.app, this, editor, {
+          source: section.source,
+          sourcePath: view.file?.path || "",
+          save: async (source) => {
+            // Through the editor, so the change can be undone
+            if (section.lineEnd <= editor.lastLine()) {
+              editor.replaceRange(
+                source + "\n",
+                { line: section.lineStart + 1, ch: 0 },
+                { line: section.lineEnd, ch: 0 }
+              );
+            } else {
+              // A block left open runs to the end of the note
+              const last = editor.lastLine();
+              editor.replaceRange(
+                "\n" + source,
+                {
+                  line: section.lineStart,
+                  ch: editor.getLine(section.lineStart).length,
+                },
+                { line: last, ch: editor.getLine(last).length }
+              );
+            }
+          },
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "draw-provocation",
+      name: "Draw a provocation",
+      editorCallback: async (editor: Editor, view: MarkdownView) => {
+        const sourcePath = view.file?.path || "";
+        const entries = await this.collectNoteWords(
+          editor.getValue(),
+          sourcePath
+        );
+        if (entries.length === 0) {
+          new Notice("No word cloud with words in this note");
+          return;
+        }
+        new ProvocationModal(
+          this.app,
+          this,
+          editor,
+          entries,
+          sourcePath
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "export-cloud",
+      name: "Export word cloud",
+      editorCallback: (editor: Editor, view: MarkdownView) => {
+        const clouds = Array.from(
+          view.containerEl.querySelectorAll<HTMLElement>(
+            ".word-cloud-container"
+          )
+        ).filter((cloud) => cloud.querySelector(WORD_SELECTOR));
+        const sourcePath = view.file?.path || "";
+
+        if (clouds.length === 0) {
+          new Notice("No rendered word cloud in this note");
+        } else if (clouds.length === 1) {
+          void this.exportWordCloud(clouds[0], sourcePath, editor);
+        } else {
+          new WordCloudSuggestModal(this.app, clouds, (cloud) => {
+            void this.exportWordCloud(cloud, sourcePath, editor);
+          }).open();
+        }
+      },
+    });
+
     this.registerMarkdownCodeBlockProcessor("wordcloud", (source, el, ctx) => {
-      this.renderWordCloud(source, el);
+      const child = new MarkdownRenderChild(el);
+      ctx.addChild(child);
+      const updateSource = async (updated: string) => {
+        const section = ctx.getSectionInfo(el);
+        if (!section) {
+          throw new Error("Could not find this word cloud in the note");
+        }
+        await replaceCodeBlockSource(
+          this.app,
+          ctx.sourcePath,
+          section.lineStart,
+          section.lineEnd,
+          updated
+        );
+      };
+      return this.renderWordCloud(source, el, {
+        sourcePath: ctx.sourcePath,
+        component: child,
+        updateSource,
+        edit: () =>
+          new WordCloudModal(this.app, this, undefined, {
+            source,
+            sourcePath: ctx.sourcePath,
+            save: updateSource,
+          }).open(),
+      });
     });
 
     this.addSettingTab(new WordCloudSettingTab(this.app, this));
   }
 
-  renderWordCloud(source: string, container: HTMLElement) {
+  renderError(container: HTMLElement, title: string, messages: string[]) {
+    const errorBox = container.createDiv("word-cloud-error");
+    errorBox.createEl("div", { text: title, cls: "word-cloud-error-title" });
+    messages.forEach((message) => errorBox.createEl("div", { text: message }));
+  }
+
+  // Words for the cloud, from the block itself or from the vault
+  async loadEntries(
+    settings: CloudConfig,
+    body: string,
+    sourcePath: string
+  ): Promise<WordEntry[]> {
+    switch (settings.source?.type) {
+      case "tags":
+        return collectTagEntries(this.app, settings);
+      case "file":
+        return collectFileEntries(this.app, settings, sourcePath);
+      case "this":
+      case "note":
+      case "folder":
+        return collectWordFrequencies(this.app, settings, sourcePath);
+      default:
+        return readList(body, settings.separator);
+    }
+  }
+
+  // Every word of the wordcloud blocks in a note, as their clouds show
+  // them. Blocks with broken options or sources are skipped.
+  async collectNoteWords(
+    markdown: string,
+    sourcePath: string
+  ): Promise<WordEntry[]> {
+    const entries: WordEntry[] = [];
+    for (const source of findCloudBlocks(markdown)) {
+      const block = parseCloudBlock(source);
+      if (block.errors.length > 0) continue;
+      const settings = resolveCloudConfig(this.settings, block.options);
+      try {
+        const blockEntries = await this.loadEntries(
+          settings,
+          block.body,
+          sourcePath
+        );
+        for (const entry of blockEntries) {
+          entries.push({
+            ...entry,
+            word: applyCasing(entry.word, settings.casing),
+          });
+        }
+      } catch (error) {
+        console.error("Word cloud source error:", error);
+      }
+    }
+    return mergeWordEntries(entries);
+  }
+
+  async runClickAction(
+    action: ClickAction,
+    entry: WordEntry,
+    settings: CloudConfig,
+    sourcePath: string,
+    recenter: () => void
+  ) {
+    switch (action) {
+      case "open":
+      case "open-or-create":
+        try {
+          await openNoteForWord(this.app, entry.word, {
+            create: action === "open-or-create",
+            folder: settings.newNoteFolder,
+            template: settings.noteTemplate,
+            sourcePath,
+          });
+        } catch (error) {
+          console.error("Word cloud: could not open note", error);
+          new Notice(`Could not open a note for "${entry.word}"`);
+        }
+        return;
+      case "search": {
+        const query = entry.tag ? `tag:#${entry.tag}` : `"${entry.word}"`;
+        if (!openGlobalSearch(this.app, query)) {
+          new Notice("Enable the core search plugin to search for words");
+        }
+        return;
+      }
+      case "recenter":
+      default:
+        recenter();
+        // Tags also open a search for the notes carrying them
+        if (entry.tag && !openGlobalSearch(this.app, `tag:#${entry.tag}`)) {
+          new Notice("Enable the core search plugin to search for tags");
+        }
+    }
+  }
+
+  async logWord(word: string, settings: CloudConfig, sourcePath: string) {
+    try {
+      await logWordToJournal(this.app, word, sourcePath, {
+        target: settings.logTarget,
+        notePath: settings.logNote,
+      });
+    } catch (error) {
+      console.error("Word cloud journal error:", error);
+      new Notice(
+        error instanceof Error ? error.message : "Could not log the word"
+      );
+    }
+  }
+
+  async exportWordCloud(
+    container: HTMLElement,
+    sourcePath: string,
+    editor?: Editor
+  ) {
+    const note = this.app.vault.getAbstractFileByPath(sourcePath);
+    try {
+      const exported = await exportCloud(this.app, container, {
+        folder: this.settings.exportFolder,
+        png: this.settings.exportPng,
+        baseName: note instanceof TFile ? note.basename : "Word cloud",
+      });
+      new Notice(`Word cloud exported to ${exported.svg.path}`);
+
+      if (editor && this.settings.exportEmbed) {
+        const file = exported.png || exported.svg;
+        const link = this.app.fileManager.generateMarkdownLink(
+          file,
+          sourcePath
+        );
+        editor.replaceSelection(`!${link}\n`);
+      }
+    } catch (error) {
+      console.error("Word cloud export error:", error);
+      new Notice("Could not export word cloud");
+    }
+  }
+
+  async renderWordCloud(
+    source: string,
+    container: HTMLElement,
+    renderOptions: RenderOptions = {}
+  ) {
+    const sourcePath = renderOptions.sourcePath || "";
     container.empty();
     container.addClass("word-cloud-container");
+    if (renderOptions.edit && !renderOptions.preview) {
+      renderEditButton(container, renderOptions.edit);
+    }
+
+    const block = parseCloudBlock(source);
+    if (block.errors.length > 0) {
+      this.renderError(
+        container,
+        "Word cloud options could not be read:",
+        block.errors
+      );
+      return;
+    }
 
-    const separator = this.settings.separator || ",";
-    const rawWords = source
-      .split(separator)
-      .map((w) => w.trim())
-      .filter((w) => w.length > 0);
-    const words = rawWords.map((word) =>
-      applyCasing(word, this.settings.casing)
+    const settings = resolveCloudConfig(this.settings, block.options);
+
+    if (settings.paletteName) {
+      const named = findPalette(this.settings.palettes, settings.paletteName);
+      if (!named) {
+        const names = [...this.settings.palettes, ...PRESET_PALETTES].map(
+          (palette) => palette.name
+        );
+        this.renderError(container, "Word cloud options could not be read:", [
+          `No palette named "${settings.paletteName}". ` +
+            `Known palettes: ${names.join(", ")}`,
+        ]);
+        return;
+      }
+      settings.colorPalette = named.colors;
+    }
+
+    // What this render hooks up is let go once it's replaced or the block
+    // is unloaded
+    const component = renderOptions.component?.addChild(new Component());
+
+    // Clouds drawn from a list file follow its changes
+    const listSource = settings.source;
+    if (component && listSource?.type === "file") {
+      const rerender = debounce(
+        () => {
+          renderOptions.component?.removeChild(component);
+          void this.renderWordCloud(source, container, renderOptions);
+        },
+        SOURCE_DEBOUNCE_MS,
+        true
+      );
+      const onChange = (file: TAbstractFile) => {
+        if (file === resolveListFile(this.app, listSource.path, sourcePath)) {
+          rerender();
+        }
+      };
+      component.registerEvent(this.app.vault.on("modify", onChange));
+      component.registerEvent(this.app.vault.on("create", onChange));
+      component.register(() => rerender.cancel());
+    }
+
+    // Without an explicit seed the block's own text is the seed, so a cloud
+    // looks the same every time it's opened and for everyone
+    let seed = renderOptions.seed ?? settings.seed ?? hashSeed(source);
+    let currentWord: string | null = null;
+
+    let sourceEntries: WordEntry[];
+    try {
+      sourceEntries = await this.loadEntries(settings, block.body, sourcePath);
+    } catch (error) {
+      this.renderError(container, "Word cloud source could not be read:", [
+        error instanceof Error ? error.message : String(error),
+      ]);
+      return;
+    }
+    const entries = mergeWordEntries(
+      sourceEntries.map((entry) => ({
+        ...entry,
+        word: applyCasing(entry.word, settings.casing),
+      }))
     );
+    const words = entries.map((entry) => entry.word);
 
     if (words.length === 0) {
       container.createEl("p", {
-        text: `No words provided. Add ${separator}-separated words.`,
+        text:
+          settings.source?.type === "tags"
+            ? "No tags match this cloud."
+            : settings.source?.type === "file"
+            ? "No words found in the list file."
+            : settings.source && settings.source.type !== "list"
+            ? "No words found in the source notes."
+            : `No words provided. ${describeListFormat(settings.separator)}.`,
       });
       return;
     }
 
-    const colors =
-      this.settings.colorPalette.length > 0
-        ? this.settings.colorPalette
+    // Lists split by headings are colored by group unless the block picks
+    // a color mode. Tag clouds keep theirs, since every tag is a group.
+    const groups = Array.from(
+      new Set(
+        entries
+          .map((entry) => entry.group)
+          .filter((group): group is string => !!group)
+      )
+    );
+    const hasHeadingGroups =
+      groups.length > 1 && settings.source?.type !== "tags";
+    if (
+      hasHeadingGroups &&
+      block.options.colorMode === undefined &&
+      settings.colorMode === "random"
+    ) {
+      settings.colorMode = "group";
+    }
+    const showLegend =
+      groups.length > 1 &&
+      (block.options.showLegend ?? (settings.showLegend && hasHeadingGroups));
+
+    const palette =
+      settings.colorMode === "theme"
+        ? THEME_COLORS
+        : settings.colorPalette.length > 0
+        ? settings.colorPalette
         : DEFAULT_SETTINGS.colorPalette;
 
     const getContainerWidth = () => {
@@ -203,361 +597,455 @@ export default class WordCloudPlugin extends Plugin {
       return 700;
     };
 
-    const containerWidth = getContainerWidth();
-    const isMobile = containerWidth < 500;
+    const getContainerHeight = (width: number): number => {
+      if (settings.height) return settings.height;
+      const ratio = parseAspectRatio(settings.aspectRatio);
+      if (settings.heightMode === "aspect" && ratio) {
+        return Math.max(MIN_HEIGHT, Math.round(width / ratio));
+      }
+      if (settings.heightMode === "fill") {
+        // The visible height of the note the cloud is in
+        const pane = container.closest(".cm-scroller, .markdown-preview-view");
+        if (pane && pane.clientHeight > 0) {
+          return Math.max(MIN_HEIGHT, pane.clientHeight - FILL_MARGIN);
+        }
+      }
+      return width < 500 ? 400 : 500;
+    };
 
-    let minFontSize: number;
-    let maxFontSize: number;
-    if (this.settings.autoFontSize) {
-      const autoSizes = getAutoFontSizes(words.length, isMobile);
-      minFontSize = autoSizes.min;
-      maxFontSize = autoSizes.max;
-    } else {
-      minFontSize = this.settings.minFontSize;
-      maxFontSize = this.settings.maxFontSize;
-    }
+    // Everything that depends on the size of the cloud, set by updateSize
+    let containerWidth = 0;
+    let containerHeight = 0;
+    let minFontSize = 0;
+    let maxFontSize = 0;
+    let spacingConfig: SpacingConfig = SPACING_CONFIG.normal;
+    let shapeMask: ShapeMask | null = null;
+
+    const entryByWord = new Map(entries.map((e) => [e.word, e]));
+
+    container.oncontextmenu = (evt) => {
+      if (!container.querySelector(WORD_SELECTOR)) return;
+      evt.preventDefault();
+      const menu = new Menu();
+      menu.addItem((item) =>
+        item
+          .setTitle("Export word cloud")
+          .setIcon("download")
+          .onClick(() => this.exportWordCloud(container, sourcePath))
+      );
+      menu.addItem((item) =>
+        item
+          .setTitle("Shuffle layout")
+          .setIcon("shuffle")
+          .onClick(() => {
+            seed = createRandomSeed();
+            void renderWords(currentWord);
+          })
+      );
+      const edit = renderOptions.edit;
+      if (edit && !renderOptions.preview) {
+        menu.addItem((item) =>
+          item.setTitle("Edit word cloud").setIcon("pencil").onClick(edit)
+        );
+      }
+      const updateSource = renderOptions.updateSource;
+      if (updateSource) {
+        menu.addItem((item) =>
+          item
+            .setTitle("Keep this layout")
+            .setIcon("pin")
+            .onClick(async () => {
+              try {
+                await updateSource(
+                  setBlockOption(source, "seed", String(seed))
+                );
+              } catch (error) {
+                console.error("Word cloud seed error:", error);
+                new Notice("Could not save the layout seed to the block");
+              }
+            })
+        );
+      }
+      menu.showAtMouseEvent(evt);
+    };
 
-    let spacingConfig: SpacingConfig;
-    if (this.settings.autoSpacing) {
-      spacingConfig = getAutoSpacing(words.length, isMobile);
-    } else {
-      spacingConfig = SPACING_CONFIG[this.settings.spacing || "normal"];
+    const loadShapeMask = (height: number): Promise<ShapeMask | null> =>
+      settings.shapeImage
+        ? loadImageMask(
+            this.app,
+            settings.shapeImage,
+            sourcePath,
+            containerWidth,
+            height,
+            spacingConfig.margin
+          )
+        : Promise.resolve(
+            createShapeMask(
+              settings.shape,
+              containerWidth,
+              height,
+              spacingConfig.margin
+            )
+          );
+
+    const updateSize = async () => {
+      containerWidth = getContainerWidth();
+      const isMobile = containerWidth < 500;
+
+      if (settings.autoFontSize) {
+        const autoSizes = getAutoFontSizes(words.length, isMobile);
+        minFontSize = autoSizes.min;
+        maxFontSize = autoSizes.max;
+      } else {
+        minFontSize = settings.minFontSize;
+        maxFontSize = settings.maxFontSize;
+      }
+
+      if (settings.autoSpacing) {
+        spacingConfig = getAutoSpacing(words.length, isMobile);
+      } else {
+        spacingConfig = SPACING_CONFIG[settings.spacing || "normal"];
+      }
+
+      containerHeight = getContainerHeight(containerWidth);
+      shapeMask = await loadShapeMask(containerHeight);
+    };
+
+    try {
+      await updateSize();
+    } catch (error) {
+      this.renderError(container, "Word cloud shape could not be loaded:", [
+        error instanceof Error ? error.message : String(error),
+      ]);
+      return;
     }
 
-    const containerHeight = isMobile ? 400 : 500;
-    container.setCssProps({
-      "--wc-height": containerHeight + "px",
-      "--wc-position": "relative",
-    });
+    const setContainerHeight = (height: number) =>
+      container.setCssProps({
+        "--wc-height": height + "px",
+        "--wc-position": "relative",
+      });
+    setContainerHeight(containerHeight);
     container.addClass("word-cloud-sized");
 
-    const renderWords = (centeredWord: string | null = null) => {
-      container.empty();
-
-      let shuffledWords: string[];
-      if (centeredWord) {
-        const otherWords = words.filter((w) => w !== centeredWord);
-        shuffledWords = [
-          centeredWord,
-          ...otherWords.sort(() => Math.random() - 0.5),
-        ];
-      } else {
-        shuffledWords = [...words].sort(() => Math.random() - 0.5);
-      }
+    const announce = createCloudAnnouncer(
+      container,
+      `Word cloud with ${words.length} ${
+        words.length === 1 ? "word" : "words"
+      }. Use the arrow keys to move between words and Enter to center one.`
+    );
 
-      const placedElements: PlacedRect[] = [];
+    // Words centered in this cloud, for going back and forward
+    const history: string[] = [];
+    let historyIndex = -1;
+    const historyBar = container.createDiv("word-cloud-history");
 
-      const checkOverlap = (rect1: PlacedRect, rect2: PlacedRect): boolean => {
-        const padding = spacingConfig.padding;
+    const updateHistoryBar = () =>
+      renderHistoryBar(historyBar, history, historyIndex, (index) => {
+        historyIndex = index;
+        centerWord(history[index]);
+      });
 
-        let w1 = rect1.width;
-        let h1 = rect1.height;
-        if (Math.abs(rect1.rotation) === 90) {
-          [w1, h1] = [h1, w1];
+    // Group picked out in the legend, with the other words dimmed
+    let highlighted: string | null = null;
+    const legend = container.createDiv("word-cloud-legend is-hidden");
+
+    const updateLegend = (placed: Placement[]) => {
+      if (!showLegend) return;
+      // Swatches only mean something when colors follow the groups
+      const colors = new Map<string, string>();
+      if (settings.colorMode === "group") {
+        for (const placement of placed) {
+          if (placement.group && !colors.has(placement.group)) {
+            colors.set(placement.group, placement.color);
+          }
         }
-
-        let w2 = rect2.width;
-        let h2 = rect2.height;
-        if (Math.abs(rect2.rotation) === 90) {
-          [w2, h2] = [h2, w2];
+      }
+      renderLegend(
+        legend,
+        groups.map((group) => ({ group, color: colors.get(group) || "" })),
+        highlighted,
+        (group) => {
+          highlighted = highlighted === group ? null : group;
+          highlightGroup(container, highlighted);
+          updateLegend(placed);
+          announce(
+            highlighted ? `Highlighting ${group}` : "Showing every group"
+          );
         }
+      );
+    };
 
-        const left1 = rect1.centerX - w1 / 2 - padding;
-        const right1 = rect1.centerX + w1 / 2 + padding;
-        const top1 = rect1.centerY - h1 / 2 - padding;
-        const bottom1 = rect1.centerY + h1 / 2 + padding;
-
-        const left2 = rect2.centerX - w2 / 2 - padding;
-        const right2 = rect2.centerX + w2 / 2 + padding;
-        const top2 = rect2.centerY - h2 / 2 - padding;
-        const bottom2 = rect2.centerY + h2 / 2 + padding;
-
-        return !(
-          right1 < left2 ||
-          left1 > right2 ||
-          bottom1 < top2 ||
-          top1 > bottom2
-        );
-      };
-
-      const tempElements: WordData[] = [];
+    const pushHistory = (word: string) => {
+      history.splice(historyIndex + 1);
+      history.push(word);
+      if (history.length > MAX_HISTORY) history.shift();
+      historyIndex = history.length - 1;
+      updateHistoryBar();
+    };
 
-      const canvas = document.createElement("canvas");
-      let ctx: CanvasRenderingContext2D | null = null;
+    const centerWord = (word: string) => {
+      void renderWords(word);
+      announce(`${word} is now in the center`);
+      updateHistoryBar();
+    };
 
-      try {
-        ctx = canvas.getContext("2d");
-      } catch (error) {
-        console.error("Canvas context error:", error);
+    const selectWord = (
+      word: string,
+      evt: MouseEvent | TouchEvent | KeyboardEvent
+    ) => {
+      const entry = entryByWord.get(word) || { word, weight: 1 };
+      const action = Keymap.isModifier(evt, "Mod")
+        ? settings.modClickAction
+        : settings.clickAction;
+      if (settings.logWords && !renderOptions.preview) {
+        void this.logWord(word, settings, sourcePath);
       }
+      void this.runClickAction(action, entry, settings, sourcePath, () => {
+        pushHistory(word);
+        centerWord(word);
+      });
+    };
 
-      if (!ctx) {
-        console.error("Could not get canvas context");
-        shuffledWords.forEach((word) => {
-          const isCentered = centeredWord === word;
-          const fontSize = isCentered
-            ? Math.floor((maxFontSize + minFontSize) / 2 + 10)
-            : Math.floor(Math.random() * (maxFontSize - minFontSize + 1)) +
-              minFontSize;
-
-          const color = colors[Math.floor(Math.random() * colors.length)];
-          const rotations = isCentered ? [0] : [0, 0, 0, 0, 90, -90];
-          const rotation =
-            rotations[Math.floor(Math.random() * rotations.length)];
-          const width = Math.ceil(word.length * fontSize * 0.6) + 8;
-          const height = fontSize + 8;
-
-          tempElements.push({
-            width,
-            height,
-            fontSize,
-            color,
-            rotation,
-            word,
-            isCentered,
-          });
-        });
-
-        requestAnimationFrame(() => {
-          setTimeout(() => {
-            positionWords();
-          }, 50);
-        });
+    // Arrow keys move focus to the nearest word in that direction, and
+    // Enter or Space act like a click
+    container.onkeydown = (evt) => {
+      const target =
+        evt.target instanceof Element
+          ? evt.target.closest<HTMLElement | SVGElement>(WORD_SELECTOR)
+          : null;
+      const word = target?.dataset.word;
+      if (!target || word === undefined) return;
+
+      if (evt.key === "Enter" || evt.key === " ") {
+        evt.preventDefault();
+        selectWord(word, evt);
         return;
       }
 
-      const context: CanvasRenderingContext2D = ctx;
-
-      shuffledWords.forEach((word) => {
-        const isCentered = centeredWord === word;
-        const fontSize = isCentered
-          ? Math.floor((maxFontSize + minFontSize) / 2 + 10)
-          : Math.floor(Math.random() * (maxFontSize - minFontSize + 1)) +
-            minFontSize;
-
-        const color = colors[Math.floor(Math.random() * colors.length)];
-        const rotations = isCentered ? [0] : [0, 0, 0, 0, 90, -90];
-        const rotation =
-          rotations[Math.floor(Math.random() * rotations.length)];
-
-        const fontFamily = container.isConnected
-          ? getComputedStyle(container).fontFamily || "Arial, sans-serif"
-          : "Arial, sans-serif";
-        (
-          context
-        ).font = `bold ${fontSize}px ${fontFamily}`;
-        const metrics = context.measureText(word);
-        const width = Math.ceil(metrics.width) + 8;
-        const height = fontSize + 8;
-
-        tempElements.push({
-          width,
-          height,
-          fontSize,
-          color,
-          rotation,
-          word,
-          isCentered,
-        });
-      });
+      const direction = ARROW_DIRECTIONS[evt.key];
+      const from = shown.get(word);
+      if (!direction || !from) return;
+      evt.preventDefault();
 
-      requestAnimationFrame(() => {
-        setTimeout(() => {
-          positionWords();
-        }, 50);
-      });
+      const next = nearestInDirection(
+        from,
+        Array.from(shown.values()),
+        direction
+      );
+      const nextEl =
+        next &&
+        container.querySelector<HTMLElement | SVGElement>(
+          `[data-word="${CSS.escape(next.word)}"]`
+        );
+      if (!nextEl) return;
+      target.tabIndex = -1;
+      nextEl.tabIndex = 0;
+      nextEl.focus();
+    };
 
-      const positionWords = () => {
-        if (!centeredWord) {
-          tempElements.sort((a, b) => b.width * b.height - a.width * a.height);
-        }
+    // Dense clouds are drawn as one SVG instead of an element per word
+    const useSvg =
+      settings.renderer === "svg" ||
+      (settings.renderer === "auto" && entries.length >= settings.svgThreshold);
+
+    let activeRenderId = 0;
+    // Where each word currently on screen was placed
+    let shown = new Map<string, Placement>();
+
+    const renderWords = async (centeredWord: string | null = null) => {
+      const renderId = ++activeRenderId;
+      currentWord = centeredWord;
+
+      // A chosen font falls back to the note's, like any font stack
+      const noteFont = container.isConnected
+        ? getComputedStyle(container).fontFamily || "Arial, sans-serif"
+        : "Arial, sans-serif";
+      const typography: Typography = {
+        fontFamily: settings.fontFamily
+          ? `${settings.fontFamily}, ${noteFont}`
+          : noteFont,
+        fontWeights: parseFontWeights(settings.fontWeight) || ["bold"],
+        italic: settings.italic,
+        letterSpacing: settings.letterSpacing,
+      };
+      await loadFonts(typography, words.join(""), FONT_LOAD_TIMEOUT_MS);
+      if (renderId !== activeRenderId) return;
+      setCloudTypography(container, typography);
+      const measure = createCanvasMeasure(typography);
+      const animate =
+        settings.animate &&
+        !window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+
+      const startDrawing = ({ width, height }: LayoutOptions): DrawWordFn => {
+        // Words glide from wherever they are on screen now
+        const previous = animate && shown.size > 0 ? shown : null;
+        shown = new Map();
+        // Keyboard users stay on the cloud, on its new center
+        const hadFocus = container.contains(document.activeElement);
+
+        clearCloud(container);
+        setContainerHeight(height);
+        const list = createWordList(container);
+        const draw: DrawWordFn = useSvg
+          ? createSvgCloud(list, width, height, typography, selectWord)
+          : (placement, motion) =>
+              renderWord(list, placement, selectWord, motion);
+
+        return (placement) => {
+          shown.set(placement.word, placement);
+          const el = draw(
+            placement,
+            previous ? { from: previous.get(placement.word) } : undefined
+          );
+          if (highlighted !== null) {
+            el.toggleClass("is-dimmed", placement.group !== highlighted);
+          }
+          if (hadFocus && placement.isCentered) el.focus();
+          return el;
+        };
+      };
 
-        const centerX = containerWidth / 2;
-        const centerY = containerHeight / 2;
+      // Lay words out in time slices so large clouds don't freeze the UI.
+      // Resolves with null if a newer render has taken over the container.
+      const runLayout = (options: LayoutOptions, onPlace?: DrawWordFn) =>
+        new Promise<LayoutResult | null>((resolve) => {
+          const layout = layoutWords(entries, options, measure);
+          const step = () => {
+            if (renderId !== activeRenderId) return resolve(null);
+            const deadline = performance.now() + LAYOUT_SLICE_MS;
+            while (performance.now() < deadline) {
+              const next = layout.next();
+              if (next.done) return resolve(next.value);
+              onPlace?.(next.value);
+            }
+            window.setTimeout(step, 0);
+          };
+          step();
+        });
 
-        tempElements.forEach((temp) => {
-          const tag = container.createEl("span");
-          tag.addClass("word-cloud-word");
-          tag.textContent = temp.word;
-          tag.setCssProps({
-            "--wc-font-size": temp.fontSize + "px",
-            "--wc-color": temp.color,
-          });
+      // Gradients and the contrast check work on concrete colors, so theme
+      // variables are looked up against the note first
+      const resolveColors =
+        settings.colorMode === "gradient" || settings.contrastCheck;
+      const colors = resolveColors
+        ? resolveCssColors(container, palette)
+        : palette;
+      const contrastBackground = settings.contrastCheck
+        ? resolveCssColors(container, ["var(--background-primary)"])[0]
+        : null;
+
+      let options: LayoutOptions = {
+        width: containerWidth,
+        height: containerHeight,
+        minFontSize,
+        maxFontSize,
+        sizeScale: settings.sizeScale,
+        fontWeights: typography.fontWeights,
+        spacing: spacingConfig,
+        colors,
+        colorMode: settings.colorMode,
+        contrastBackground,
+        rotation: settings,
+        seed,
+        centeredWord,
+        mask: shapeMask,
+        clusterGroups: settings.clusterGroups,
+      };
 
-          const tagWidth = temp.width;
-          const tagHeight = temp.height;
-          const rotation = temp.rotation;
-          const isCentered = temp.isCentered;
-
-          let placed = false;
-
-          if (isCentered) {
-            const x = centerX - tagWidth / 2;
-            const y = centerY - tagHeight / 2;
-
-            tag.setCssProps({
-              "--wc-left": x + "px",
-              "--wc-top": y + "px",
-              "--wc-transform": `rotate(${rotation}deg) scale(1.2)`,
-              "--wc-z-index": "50",
-            });
-            tag.addClass("word-cloud-word--centered");
-
-            placedElements.push({
-              centerX,
-              centerY,
-              width: tagWidth * 1.5,
-              height: tagHeight * 1.5,
-              rotation,
-            });
-            placed = true;
-          } else {
-            let spiralRadius = 120;
-            const spiralStep = spacingConfig.spiralStep;
-            const angleStep = 0.08;
-            let angle = Math.random() * Math.PI * 2;
-
-            const maxRadius = Math.max(containerWidth, containerHeight) * 2;
-            const maxAttempts = 20000;
-            let attempts = 0;
-
-            while (
-              !placed &&
-              spiralRadius < maxRadius &&
-              attempts < maxAttempts
-            ) {
-              const testCenterX = centerX + spiralRadius * Math.cos(angle);
-              const testCenterY = centerY + spiralRadius * Math.sin(angle);
-
-              let neededWidth = tagWidth;
-              let neededHeight = tagHeight;
-              if (Math.abs(rotation) === 90) {
-                [neededWidth, neededHeight] = [neededHeight, neededWidth];
-              }
+      // The first attempt draws words as they are placed
+      let result = await runLayout(options, startDrawing(options));
+      if (!result) return;
+
+      // Retries are drawn only once they're done, so the cloud doesn't
+      // flash empty in between
+      let retried = false;
+      for (
+        let retry = 0;
+        retry < OVERFLOW_RETRIES &&
+        result.failed.length > 0 &&
+        settings.overflow !== "badge";
+        retry++
+      ) {
+        if (settings.overflow === "grow") {
+          const height = Math.round(options.height * 1.3);
+          let mask: ShapeMask | null;
+          try {
+            mask = await loadShapeMask(height);
+          } catch (error) {
+            console.error("Word cloud shape error:", error);
+            break;
+          }
+          options = { ...options, height, mask };
+        } else {
+          options = shrinkLayout(options);
+        }
 
-              const left = testCenterX - neededWidth / 2;
-              const right = testCenterX + neededWidth / 2;
-              const top = testCenterY - neededHeight / 2;
-              const bottom = testCenterY + neededHeight / 2;
-
-              const margin = spacingConfig.margin;
-              if (
-                left >= margin &&
-                right <= containerWidth - margin &&
-                top >= margin &&
-                bottom <= containerHeight - margin
-              ) {
-                const testRect: PlacedRect = {
-                  centerX: testCenterX,
-                  centerY: testCenterY,
-                  width: tagWidth,
-                  height: tagHeight,
-                  rotation,
-                };
-
-                let hasOverlap = false;
-                for (let i = 0; i < placedElements.length; i++) {
-                  if (checkOverlap(testRect, placedElements[i])) {
-                    hasOverlap = true;
-                    break;
-                  }
-                }
-
-                if (!hasOverlap) {
-                  const x = testCenterX - tagWidth / 2;
-                  const y = testCenterY - tagHeight / 2;
-
-                  tag.setCssProps({
-                    "--wc-left": x + "px",
-                    "--wc-top": y + "px",
-                    "--wc-transform": `rotate(${rotation}deg)`,
-                    "--wc-z-index": "1",
-                  });
-
-                  placedElements.push(testRect);
-                  placed = true;
-                }
-              }
+        const retryResult = await runLayout(options);
+        if (!retryResult) return;
+        result = retryResult;
+        retried = true;
+      }
 
-              angle += angleStep;
-              spiralRadius += spiralStep * (angleStep / (2 * Math.PI));
-              attempts++;
-            }
+      if (retried) {
+        const drawWord = startDrawing(options);
+        for (const placement of result.placed) drawWord(placement);
+      }
+      if (result.failed.length > 0) {
+        renderHiddenBadge(container, result.failed);
+      }
+      updateLegend(result.placed);
+    };
 
-            if (!placed) {
-              tag.remove();
-            }
-          }
+    const firstRender = window.setTimeout(() => {
+      const pick = createSeededRandom(seed)();
+      const randomWord = words[Math.floor(pick * words.length)];
+      pushHistory(randomWord);
+      void renderWords(randomWord);
+    }, 100);
 
-          if (placed) {
-            tag.dataset.rotation = String(rotation);
-            tag.dataset.isCentered = String(isCentered);
-
-            tag.addEventListener("click", (e) => {
-              e.preventDefault();
-              e.stopPropagation();
-              renderWords(temp.word);
-            });
-
-            tag.addEventListener("touchend", (e) => {
-              e.preventDefault();
-              e.stopPropagation();
-              renderWords(temp.word);
-            });
-
-            tag.addEventListener("mouseenter", () => {
-              if (!isCentered) {
-                const rot = parseInt(tag.dataset.rotation || "0");
-                tag.setCssProps({
-                  "--wc-transform": `rotate(${rot}deg) scale(1.1)`,
-                  "--wc-z-index": "100",
-                });
-              }
-            });
-
-            tag.addEventListener("mouseleave", () => {
-              if (!isCentered) {
-                const rot = parseInt(tag.dataset.rotation || "0");
-                tag.setCssProps({
-                  "--wc-transform": `rotate(${rot}deg) scale(1)`,
-                  "--wc-z-index": "1",
-                });
-              }
-            });
-
-            let touchScaleTimeout: number;
-
-            tag.addEventListener("touchstart", () => {
-              if (!isCentered) {
-                const rot = parseInt(tag.dataset.rotation || "0");
-                tag.setCssProps({
-                  "--wc-transform": `rotate(${rot}deg) scale(1.1)`,
-                  "--wc-z-index": "100",
-                });
-                if (touchScaleTimeout) window.clearTimeout(touchScaleTimeout);
-              }
-            });
-
-            tag.addEventListener("touchcancel", () => {
-              if (!isCentered) {
-                touchScaleTimeout = window.setTimeout(() => {
-                  const rot = parseInt(tag.dataset.rotation || "0");
-                  tag.setCssProps({
-                    "--wc-transform": `rotate(${rot}deg) scale(1)`,
-                    "--wc-z-index": "1",
-                  });
-                }, 100);
-              }
-            });
+    // Lay the cloud out again when the space it has changes, keeping the
+    // centered word and seed. Clouds first rendered in hidden tabs get
+    // their real size this way too.
+    if (component) {
+      const relayout = debounce(
+        async () => {
+          const width = container.offsetWidth;
+          if (width === 0) return;
+          if (
+            width === containerWidth &&
+            getContainerHeight(width) === containerHeight
+          ) {
+            return;
           }
-        });
-      };
-    };
+          try {
+            await updateSize();
+          } catch (error) {
+            console.error("Word cloud shape error:", error);
+            return;
+          }
+          void renderWords(currentWord);
+        },
+        RESIZE_DEBOUNCE_MS,
+        true
+      );
 
-    setTimeout(() => {
-      const randomWord = words[Math.floor(Math.random() * words.length)];
-      renderWords(randomWord);
-    }, 100);
+      const observer = new ResizeObserver(() => relayout());
+      observer.observe(container);
+      component.registerEvent(this.app.workspace.on("resize", relayout));
+      // Contrast depends on the theme's background
+      if (settings.contrastCheck) {
+        component.registerEvent(
+          this.app.workspace.on("css-change", () => renderWords(currentWord))
+        );
+      }
+      component.register(() => {
+        window.clearTimeout(firstRender);
+        observer.disconnect();
+        relayout.cancel();
+        activeRenderId++;
+      });
+    }
   }
 
   async loadSettings() {
@@ -569,66 +1057,142 @@ export default class WordCloudPlugin extends Plugin {
   }
 }
 
+// A block the modal changes in place, instead of inserting a new one
+interface CloudEditTarget {
+  source: string;
+  sourcePath: string;
+  save: (source: string) => Promise<void>;
+}
+
 class WordCloudModal extends Modal {
   plugin: WordCloudPlugin;
   editor?: Editor;
-
-  constructor(app: App, plugin: WordCloudPlugin, editor?: Editor) {
+  target?: CloudEditTarget;
+  seed?: number;
+  preview?: HTMLElement;
+  previewComponent?: Component;
+  schedulePreview?: Debouncer<[], void>;
+
+  constructor(
+    app: App,
+    plugin: WordCloudPlugin,
+    editor?: Editor,
+    target?: CloudEditTarget
+  ) {
     super(app);
     this.plugin = plugin;
     this.editor = editor;
+    this.target = target;
   }
 
   onOpen() {
     const { contentEl } = this;
     contentEl.empty();
 
-    contentEl.createEl("h2", { text: "Generate word cloud" });
-
-    const separator = this.plugin.settings.separator || ",";
-    const separatorName =
-      separator === ","
-        ? "comma"
-        : separator === "."
-        ? "period"
-        : separator === " "
-        ? "space"
-        : `"${separator}"`;
+    contentEl.createEl("h2", {
+      text: this.target ? "Edit word cloud" : "Generate word cloud",
+    });
 
     const inputContainer = contentEl.createDiv("word-cloud-modal-input");
 
     inputContainer.createEl("p", {
-      text: `Enter words separated by ${separatorName}`,
+      text: describeListFormat(this.plugin.settings.separator),
       cls: "word-cloud-modal-helper",
     });
 
     const textarea = inputContainer.createEl("textarea", {
       cls: "word-cloud-modal-textarea",
     });
-    textarea.placeholder = `Enter ${separatorName}-separated words...`;
-
-    const buttonContainer = contentEl.createDiv("word-cloud-modal-buttons");
+    textarea.placeholder = "Enter words...";
+    textarea.value = this.target?.source || "";
 
-    const previewBtn = buttonContainer.createEl("button", {
-      text: "Preview",
-      cls: "word-cloud-modal-btn",
-    });
-    previewBtn.addEventListener("click", () => {
-      const existing = contentEl.querySelector(
-        ".word-cloud-preview"
+    new Setting(inputContainer)
+      .setName("Import words")
+      .addButton((button) =>
+        button.setButtonText("From a file").onClick(() =>
+          new ListFileSuggestModal(this.app, (file) =>
+            new ListImportModal(this.app, file, {
+              insert: (entries) => this.insertWords(textarea, entries),
+              link: (path, columns) =>
+                this.linkListFile(textarea, path, columns),
+            }).open()
+          ).open()
+        )
+      )
+      .addButton((button) =>
+        button.setButtonText("From the clipboard").onClick(async () => {
+          let text: string;
+          try {
+            text = await navigator.clipboard.readText();
+          } catch (error) {
+            console.error("Word cloud clipboard error:", error);
+            new Notice("Could not read the clipboard");
+            return;
+          }
+          const entries = clipboardEntries(text);
+          if (entries.length === 0) {
+            new Notice("No words on the clipboard");
+            return;
+          }
+          this.insertWords(textarea, entries);
+        })
       );
-      if (existing instanceof HTMLElement) existing.remove();
-      const preview = contentEl.createDiv("word-cloud-preview");
-      this.plugin.renderWordCloud(textarea.value, preview);
+
+    // Each redraw goes into a new element with its own component.
+    // Unloading the previous one stops a layout still running for the old
+    // text, so typing doesn't pile them up.
+    const renderPreview = () => {
+      this.clearPreview();
+      if (!textarea.value.trim()) return;
+      this.preview = contentEl.createDiv("word-cloud-preview");
+      this.previewComponent = new Component();
+      this.previewComponent.load();
+      void this.plugin.renderWordCloud(textarea.value, this.preview, {
+        sourcePath:
+          this.target?.sourcePath ?? this.app.workspace.getActiveFile()?.path,
+        seed: this.seed,
+        preview: true,
+        component: this.previewComponent,
+      });
+    };
+    const schedulePreview = debounce(renderPreview, PREVIEW_DEBOUNCE_MS, true);
+    this.schedulePreview = schedulePreview;
+
+    const syncControls = this.renderOptionControls(
+      contentEl.createDiv("word-cloud-modal-options"),
+      () => textarea.value,
+      (source) => {
+        textarea.value = source;
+        schedulePreview();
+      }
+    );
+    textarea.addEventListener("input", () => {
+      syncControls();
+      schedulePreview();
     });
 
-    const insertBtn = buttonContainer.createEl("button", {
-      text: "Insert into note",
-      cls: "word-cloud-modal-btn",
+    const buttonContainer = contentEl.createDiv("word-cloud-modal-buttons");
+
+    const saveBtn = buttonContainer.createEl("button", {
+      text: this.target ? "Save changes" : "Insert into note",
+      cls: "word-cloud-modal-btn mod-cta",
     });
-    insertBtn.addEventListener("click", () => {
-      if (this.editor) {
-        const codeBlock = "```wordcloud\n" + textarea.value + "\n```\n";
+    saveBtn.addEventListener("click", async () => {
+      const source =
+        this.seed !== undefined
+          ? setBlockOption(textarea.value, "seed", String(this.seed))
+          : textarea.value;
+      if (this.target) {
+        try {
+          await this.target.save(source);
+          new Notice("Word cloud updated");
+          this.close();
+        } catch (error) {
+          console.error("Word cloud save error:", error);
+          new Notice("Could not save the word cloud");
+        }
+      } else if (this.editor) {
+        const codeBlock = "```wordcloud\n" + source + "\n```\n";
         this.editor.replaceSelection(codeBlock);
         new Notice("Word cloud inserted!");
         this.close();
@@ -642,44 +1206,513 @@ class WordCloudModal extends Modal {
       cls: "word-cloud-modal-btn",
     });
     refreshBtn.addEventListener("click", () => {
-      const previewContainer = contentEl.querySelector(
-        ".word-cloud-preview"
-      );
-      if (previewContainer instanceof HTMLElement) {
-        previewContainer.empty();
-        this.plugin.renderWordCloud(textarea.value, previewContainer);
-      }
+      // A new seed gives a new layout, and is kept when saving
+      this.seed = createRandomSeed();
+      renderPreview();
     });
-  }
 
-  onClose() {
-    this.contentEl.empty();
+    renderPreview();
   }
-}
 
-class WordCloudSettingTab extends PluginSettingTab {
-  plugin: WordCloudPlugin;
+  // Add imported words to the end of the block, written with the block's
+  // own separator
+  insertWords(textarea: HTMLTextAreaElement, entries: WordEntry[]) {
+    const block = parseCloudBlock(textarea.value);
+    let separator = block.options.separator ?? this.plugin.settings.separator;
+    if (separator === AUTO_SEPARATOR && block.body.trim() !== "") {
+      separator = detectSeparator(block.body);
+    }
+    const list = formatList(entries, separator);
+    const current = textarea.value.replace(/\s+$/, "");
+    // Line breaks end an entry whatever the separator
+    textarea.value = current ? `${current}\n${list}` : list;
+    textarea.dispatchEvent(new Event("input"));
+    new Notice(
+      `Imported ${entries.length} ${entries.length === 1 ? "word" : "words"}`
+    );
+  }
 
-  constructor(app: App, plugin: WordCloudPlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
+  // Draw the block from a list file instead of its own words
+  linkListFile(
+    textarea: HTMLTextAreaElement,
+    path: string,
+    columns: ColumnOptions
+  ) {
+    const setOrRemove = (source: string, key: string, value?: string) =>
+      value
+        ? setBlockOption(source, key, value)
+        : removeBlockOption(source, key);
+    let source = setBlockOption(textarea.value, "source", `file ${path}`);
+    source = setOrRemove(source, "column", columns.column);
+    source = setOrRemove(source, "weight-column", columns.weightColumn);
+    textarea.value = source;
+    textarea.dispatchEvent(new Event("input"));
   }
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
+  // Form controls for the options of the block in the text area. Leaving
+  // a control on "Default" takes the option out of the block, so the
+  // plugin settings apply. Returns a function that updates the controls
+  // after the text is edited by hand.
+  renderOptionControls(
+    containerEl: HTMLElement,
+    getSource: () => string,
+    setSource: (source: string) => void
+  ): () => void {
+    const syncs: (() => void)[] = [];
+    const update = (key: string, value: string) =>
+      setSource(
+        value
+          ? setBlockOption(getSource(), key, value)
+          : removeBlockOption(getSource(), key)
+      );
 
-    // Separator setting
-    new Setting(containerEl)
-      .setName("Word separator")
-      .setDesc("Character used to separate words in the cloud")
-      .addDropdown((dropdown) =>
-        dropdown
+    const addChoice = (key: string, name: string, choices: string[]) => {
+      new Setting(containerEl).setName(name).addDropdown((dropdown) => {
+        const offered = new Set(["", ...choices]);
+        const sync = () => {
+          const value = getBlockOption(getSource(), key) || "";
+          // Values the list doesn't offer, such as a hex palette, are kept
+          if (!offered.has(value)) {
+            offered.add(value);
+            dropdown.addOption(value, value);
+          }
+          dropdown.setValue(value);
+        };
+        dropdown.addOption("", "Default");
+        choices.forEach((choice) => dropdown.addOption(choice, choice));
+        sync();
+        syncs.push(sync);
+        dropdown.onChange((value) => update(key, value));
+      });
+    };
+
+    const addText = (key: string, name: string, placeholder: string) => {
+      new Setting(containerEl).setName(name).addText((text) => {
+        const sync = () =>
+          text.setValue(getBlockOption(getSource(), key) || "");
+        text.setPlaceholder(placeholder);
+        sync();
+        syncs.push(sync);
+        text.onChange((value) => update(key, value.trim()));
+      });
+    };
+
+    const palettes = [...this.plugin.settings.palettes, ...PRESET_PALETTES];
+    addChoice("shape", "Shape", SHAPE_NAMES);
+    addChoice("rotation", "Rotation", ["horizontal", "mixed"]);
+    addChoice(
+      "palette",
+      "Palette",
+      palettes.map((palette) => palette.name)
+    );
+    addChoice("color-mode", "Color mode", COLOR_MODES);
+    addChoice("casing", "Casing", CASINGS);
+    addChoice("spacing", "Spacing", ["auto", ...SPACINGS]);
+    addText("font-size", "Font size", "auto or 12-48");
+    addText("height", "Height", "auto, 400, 16:9 or fill");
+
+    return () => syncs.forEach((sync) => sync());
+  }
+
+  clearPreview() {
+    this.previewComponent?.unload();
+    this.previewComponent = undefined;
+    this.preview?.remove();
+    this.preview = undefined;
+  }
+
+  onClose() {
+    this.schedulePreview?.cancel();
+    this.clearPreview();
+    this.contentEl.empty();
+  }
+}
+
+class ProvocationModal extends Modal {
+  plugin: WordCloudPlugin;
+  editor: Editor;
+  entries: WordEntry[];
+  sourcePath: string;
+
+  constructor(
+    app: App,
+    plugin: WordCloudPlugin,
+    editor: Editor,
+    entries: WordEntry[],
+    sourcePath: string
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.editor = editor;
+    this.entries = entries;
+    this.sourcePath = sourcePath;
+  }
+
+  onOpen() {
+    this.titleEl.setText("Your provocation");
+    this.draw();
+  }
+
+  draw() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const entry = pickWeightedEntry(this.entries, Math.random);
+    contentEl.createDiv({
+      cls: "word-cloud-provocation",
+      text: entry.word,
+    });
+    contentEl.createEl("p", {
+      text: `Drawn from ${this.entries.length} words in this note`,
+      cls: "word-cloud-modal-helper",
+    });
+
+    const buttonContainer = contentEl.createDiv("word-cloud-modal-buttons");
+
+    const headingBtn = buttonContainer.createEl("button", {
+      text: "Insert as heading",
+      cls: "word-cloud-modal-btn mod-cta",
+    });
+    headingBtn.addEventListener("click", () => {
+      this.insertHeading(entry.word);
+      this.accept(entry.word);
+    });
+
+    const noteBtn = buttonContainer.createEl("button", {
+      text: "Create note",
+      cls: "word-cloud-modal-btn",
+    });
+    noteBtn.addEventListener("click", () => {
+      void this.plugin.runClickAction(
+        "open-or-create",
+        entry,
+        this.plugin.settings,
+        this.sourcePath,
+        () => {}
+      );
+      this.accept(entry.word);
+    });
+
+    const againBtn = buttonContainer.createEl("button", {
+      text: "Draw again",
+      cls: "word-cloud-modal-btn",
+    });
+    againBtn.addEventListener("click", () => this.draw());
+  }
+
+  // Put the word on its own heading line at the cursor
+  insertHeading(word: string) {
+    const { line } = this.editor.getCursor();
+    const text = this.editor.getLine(line);
+    const heading = `## ${word}\n`;
+    if (text.trim() === "") {
+      this.editor.replaceRange(
+        heading,
+        { line, ch: 0 },
+        { line, ch: text.length }
+      );
+      this.editor.setCursor({ line: line + 1, ch: 0 });
+    } else {
+      this.editor.replaceRange("\n" + heading, { line, ch: text.length });
+      this.editor.setCursor({ line: line + 2, ch: 0 });
+    }
+  }
+
+  accept(word: string) {
+    if (this.plugin.settings.logWords) {
+      void this.plugin.logWord(word, this.plugin.settings, this.sourcePath);
+    }
+    this.close();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+class PaletteImportModal extends Modal {
+  onImport: (palettes: NamedPalette[]) => void;
+
+  constructor(app: App, onImport: (palettes: NamedPalette[]) => void) {
+    super(app);
+    this.onImport = onImport;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Import palettes");
+
+    contentEl.createEl("p", {
+      text: "Paste palette JSON, as copied from the palette library.",
+      cls: "word-cloud-modal-helper",
+    });
+    const textarea = contentEl.createEl("textarea", {
+      cls: "word-cloud-modal-textarea",
+    });
+    textarea.placeholder =
+      '{ "name": "Ocean", "colors": ["#03045e", "#0077b6"] }';
+
+    const buttonContainer = contentEl.createDiv("word-cloud-modal-buttons");
+    const importBtn = buttonContainer.createEl("button", {
+      text: "Import",
+      cls: "word-cloud-modal-btn mod-cta",
+    });
+    importBtn.addEventListener("click", () => {
+      try {
+        const palettes = importPalettes(textarea.value);
+        this.onImport(palettes);
+        new Notice(
+          `Imported ${palettes.length} ${
+            palettes.length === 1 ? "palette" : "palettes"
+          }`
+        );
+        this.close();
+      } catch (error) {
+        new Notice(error instanceof Error ? error.message : String(error));
+      }
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+class ListFileSuggestModal extends FuzzySuggestModal<TFile> {
+  onChoose: (file: TFile) => void;
+
+  constructor(app: App, onChoose: (file: TFile) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a CSV, text or markdown file");
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault
+      .getFiles()
+      .filter((file) => LIST_EXTENSIONS.includes(file.extension.toLowerCase()));
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile) {
+    this.onChoose(file);
+  }
+}
+
+// What to do with the words of a list file: add them to the block, or
+// link the block to the file so the cloud follows it
+interface ListImportActions {
+  insert: (entries: WordEntry[]) => void;
+  link: (path: string, columns: ColumnOptions) => void;
+}
+
+class ListImportModal extends Modal {
+  file: TFile;
+  actions: ListImportActions;
+
+  constructor(app: App, file: TFile, actions: ListImportActions) {
+    super(app);
+    this.file = file;
+    this.actions = actions;
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(`Import words from ${this.file.name}`);
+
+    let text: string;
+    try {
+      text = await this.app.vault.cachedRead(this.file);
+    } catch (error) {
+      console.error("Word cloud import error:", error);
+      new Notice(`Could not read ${this.file.path}`);
+      this.close();
+      return;
+    }
+
+    const extension = this.file.extension.toLowerCase();
+    const isCsv = extension === "csv" || extension === "tsv";
+    const rows = isCsv
+      ? parseCsv(text, detectCsvDelimiter(text, extension))
+      : [];
+    const columns: ColumnOptions = { header: looksLikeHeader(rows) };
+
+    const summary = contentEl.createEl("p", {
+      cls: "word-cloud-modal-helper",
+    });
+    let entries: WordEntry[] = [];
+    const update = () => {
+      try {
+        entries = isCsv
+          ? csvEntries(rows, columns)
+          : fileListEntries(text, extension, {});
+        summary.setText(
+          `${entries.length} ${entries.length === 1 ? "word" : "words"} found`
+        );
+      } catch (error) {
+        entries = [];
+        summary.setText(error instanceof Error ? error.message : String(error));
+      }
+    };
+
+    if (isCsv) {
+      const first = rows[0] || [];
+      // Columns are labelled with the first row, whether or not it's a
+      // header, so they can be told apart
+      const addColumns = (dropdown: DropdownComponent) =>
+        first.forEach((cell, i) =>
+          dropdown.addOption(String(i + 1), `${i + 1}: ${cell.trim()}`)
+        );
+
+      new Setting(contentEl)
+        .setName("First row is a header")
+        .addToggle((toggle) =>
+          toggle.setValue(columns.header === true).onChange((value) => {
+            columns.header = value;
+            update();
+          })
+        );
+      new Setting(contentEl).setName("Words column").addDropdown((dropdown) => {
+        addColumns(dropdown);
+        columns.column = "1";
+        dropdown.setValue("1").onChange((value) => {
+          columns.column = value;
+          update();
+        });
+      });
+      new Setting(contentEl)
+        .setName("Weight column")
+        .setDesc("Numbers that set how large each word is drawn")
+        .addDropdown((dropdown) => {
+          dropdown.addOption("", "None");
+          addColumns(dropdown);
+          dropdown.setValue("").onChange((value) => {
+            columns.weightColumn = value || undefined;
+            update();
+          });
+        });
+    } else if (extension === "md") {
+      contentEl.createEl("p", {
+        text: "The items of the note's bullet and numbered lists become words.",
+        cls: "word-cloud-modal-helper",
+      });
+    }
+    update();
+    contentEl.appendChild(summary);
+
+    const buttonContainer = contentEl.createDiv("word-cloud-modal-buttons");
+    const insertBtn = buttonContainer.createEl("button", {
+      text: "Insert words",
+      cls: "word-cloud-modal-btn mod-cta",
+    });
+    insertBtn.addEventListener("click", () => {
+      if (entries.length === 0) {
+        new Notice("No words to import");
+        return;
+      }
+      this.actions.insert(entries);
+      this.close();
+    });
+
+    const linkBtn = buttonContainer.createEl("button", {
+      text: "Link file",
+      cls: "word-cloud-modal-btn",
+      attr: { title: "Draw the cloud from the file and follow its changes" },
+    });
+    linkBtn.addEventListener("click", () => {
+      this.actions.link(this.file.path, this.columnNames(rows, columns));
+      this.close();
+    });
+  }
+
+  // Columns as block options: by header name when there's a header, so
+  // the block reads the same columns if the file's columns move
+  columnNames(rows: string[][], columns: ColumnOptions): ColumnOptions {
+    const header = columns.header ? rows[0] || [] : [];
+    const name = (column?: string) => {
+      if (!column) return undefined;
+      const cell = (header[parseInt(column) - 1] || "").trim();
+      const unique =
+        header.filter((c) => c.trim().toLowerCase() === cell.toLowerCase())
+          .length === 1;
+      return cell && unique && !/^\d+$/.test(cell) ? cell : column;
+    };
+    return {
+      column:
+        columns.column === "1" && !columns.header
+          ? undefined
+          : name(columns.column),
+      weightColumn: name(columns.weightColumn),
+    };
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+class WordCloudSuggestModal extends FuzzySuggestModal<HTMLElement> {
+  clouds: HTMLElement[];
+  onChoose: (cloud: HTMLElement) => void;
+
+  constructor(
+    app: App,
+    clouds: HTMLElement[],
+    onChoose: (cloud: HTMLElement) => void
+  ) {
+    super(app);
+    this.clouds = clouds;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a word cloud");
+  }
+
+  getItems(): HTMLElement[] {
+    return this.clouds;
+  }
+
+  // Label clouds by their first few words
+  getItemText(cloud: HTMLElement): string {
+    return Array.from(cloud.querySelectorAll(WORD_SELECTOR))
+      .slice(0, 6)
+      .map((word) => word.textContent)
+      .join(", ");
+  }
+
+  onChooseItem(cloud: HTMLElement) {
+    this.onChoose(cloud);
+  }
+}
+
+class WordCloudSettingTab extends PluginSettingTab {
+  plugin: WordCloudPlugin;
+
+  constructor(app: App, plugin: WordCloudPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    // Separator setting
+    new Setting(containerEl)
+      .setName("Word separator")
+      .setDesc(
+        'Character used to separate words in the cloud. Line breaks always separate words, and "quotes" keep a separator in a word.'
+      )
+      .addDropdown((dropdown) =>
+        dropdown
           .addOption(",", "Comma (,)")
           .addOption(".", "Period (.)")
           .addOption(" ", "Space ( )")
           .addOption(";", "Semicolon (;)")
           .addOption("|", "Pipe (|)")
+          .addOption("\n", "New line")
+          .addOption(AUTO_SEPARATOR, "Auto-detect")
           .setValue(this.plugin.settings.separator)
           .onChange(async (value) => {
             this.plugin.settings.separator = value;
@@ -725,6 +1758,23 @@ class WordCloudSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Size scale")
+      .setDesc(
+        "How word weights (e.g. innovation:5 or design (3)) map to font size. Unweighted words get random sizes."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("linear", "Linear")
+          .addOption("log", "Logarithmic – tames outliers")
+          .addOption("sqrt", "Square root – in between")
+          .setValue(this.plugin.settings.sizeScale)
+          .onChange(async (value) => {
+            this.plugin.settings.sizeScale = value as SizeScale;
+            await this.plugin.saveSettings();
+          })
+      );
+
     if (!this.plugin.settings.autoFontSize) {
       new Setting(containerEl)
         .setName("Minimum font size")
@@ -774,6 +1824,65 @@ class WordCloudSettingTab extends PluginSettingTab {
       });
     }
 
+    // Typography heading
+    new Setting(containerEl).setName("Typography").setHeading();
+
+    new Setting(containerEl)
+      .setName("Font")
+      .setDesc("Font family for the words. Leave empty to use the note's font.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Georgia")
+          .setValue(this.plugin.settings.fontFamily)
+          .onChange(async (value) => {
+            this.plugin.settings.fontFamily = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Font weight")
+      .setDesc(
+        "One weight such as bold, or several such as 300, 500, 800 to give small words lighter weights than large ones"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("bold")
+          .setValue(this.plugin.settings.fontWeight)
+          .onChange(async (value) => {
+            if (parseFontWeights(value)) {
+              this.plugin.settings.fontWeight = value.trim();
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Italic")
+      .setDesc("Set the words in italics")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.italic).onChange(async (value) => {
+          this.plugin.settings.italic = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Letter spacing")
+      .setDesc("Extra space between letters in em, such as 0.05")
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(String(this.plugin.settings.letterSpacing))
+          .onChange(async (value) => {
+            const spacing = parseLetterSpacing(value);
+            if (spacing !== null) {
+              this.plugin.settings.letterSpacing = spacing;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
     // Spacing heading
     new Setting(containerEl).setName("Word spacing").setHeading();
 
@@ -830,9 +1939,256 @@ class WordCloudSettingTab extends PluginSettingTab {
       });
     }
 
+    new Setting(containerEl)
+      .setName("When words don't fit")
+      .setDesc(
+        "What to do when the cloud runs out of room. Words that still don't fit are listed in a badge on the cloud."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("shrink", "Shrink fonts and spacing")
+          .addOption("grow", "Make the cloud taller")
+          .addOption("badge", "Only show the badge")
+          .setValue(this.plugin.settings.overflow)
+          .onChange(async (value) => {
+            this.plugin.settings.overflow = value as OverflowStrategy;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Rotation heading
+    new Setting(containerEl).setName("Word rotation").setHeading();
+
+    new Setting(containerEl)
+      .setName("Rotation")
+      .setDesc(
+        "Which angles words are drawn at. The centered word is always horizontal."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("horizontal", "Horizontal only")
+          .addOption("mixed", "Horizontal and vertical")
+          .addOption("angles", "Fixed angles")
+          .addOption("range", "Any angle in a range")
+          .setValue(this.plugin.settings.rotationMode)
+          .onChange(async (value) => {
+            this.plugin.settings.rotationMode = value as RotationMode;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.rotationMode === "angles") {
+      new Setting(containerEl)
+        .setName("Angles")
+        .setDesc("Angles in degrees, separated by commas")
+        .addText((text) =>
+          text
+            .setPlaceholder("-45, 0, 45")
+            .setValue(this.plugin.settings.rotationAngles.join(", "))
+            .onChange(async (value) => {
+              const angles = parseAngles(value);
+              if (angles) {
+                this.plugin.settings.rotationAngles = angles;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    } else if (this.plugin.settings.rotationMode === "range") {
+      new Setting(containerEl)
+        .setName("Angle range")
+        .setDesc("Smallest and largest angle in degrees, such as -60 to 60")
+        .addText((text) =>
+          text
+            .setPlaceholder("-60 to 60")
+            .setValue(this.plugin.settings.rotationRange.join(" to "))
+            .onChange(async (value) => {
+              const range = parseAngleRange(value);
+              if (range) {
+                this.plugin.settings.rotationRange = range;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+
+    // Shape heading
+    new Setting(containerEl).setName("Cloud shape").setHeading();
+
+    new Setting(containerEl)
+      .setName("Shape")
+      .setDesc(
+        "Outline the words are arranged in. A block can also use an image with shape: image [[file]]."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("rectangle", "Rectangle – fill the whole area")
+          .addOption("circle", "Circle")
+          .addOption("ellipse", "Ellipse")
+          .addOption("heart", "Heart")
+          .addOption("star", "Star")
+          .setValue(this.plugin.settings.shape)
+          .onChange(async (value) => {
+            this.plugin.settings.shape = value as ShapeName;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Height")
+      .setDesc(
+        "How tall clouds are. Clouds are laid out again when their pane is resized. A block can set height: 400, 16:9, fill or auto."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("auto", "Auto – 500px, 400px on narrow screens")
+          .addOption("aspect", "Aspect ratio – follow the width")
+          .addOption("fill", "Fill the visible part of the note")
+          .setValue(this.plugin.settings.heightMode)
+          .onChange(async (value) => {
+            this.plugin.settings.heightMode = value as HeightMode;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.heightMode === "aspect") {
+      new Setting(containerEl)
+        .setName("Aspect ratio")
+        .setDesc("Width to height, such as 16:9 or 4:3")
+        .addText((text) =>
+          text
+            .setPlaceholder("16:10")
+            .setValue(this.plugin.settings.aspectRatio)
+            .onChange(async (value) => {
+              if (parseAspectRatio(value)) {
+                this.plugin.settings.aspectRatio = value.trim();
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+
+    // Rendering heading
+    new Setting(containerEl).setName("Rendering").setHeading();
+
+    new Setting(containerEl)
+      .setName("Renderer")
+      .setDesc(
+        "How words are drawn. One SVG for the whole cloud keeps large clouds responsive. A block can override this with renderer: html or renderer: svg."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("auto", "Auto – SVG for large clouds")
+          .addOption("html", "HTML – an element per word")
+          .addOption("svg", "SVG – always")
+          .setValue(this.plugin.settings.renderer)
+          .onChange(async (value) => {
+            this.plugin.settings.renderer = value as RendererMode;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.renderer === "auto") {
+      new Setting(containerEl)
+        .setName("SVG threshold")
+        .setDesc("Clouds with at least this many words are drawn as SVG")
+        .addText((text) =>
+          text
+            .setPlaceholder("150")
+            .setValue(String(this.plugin.settings.svgThreshold))
+            .onChange(async (value) => {
+              const num = parseInt(value);
+              if (!isNaN(num) && num > 0) {
+                this.plugin.settings.svgThreshold = num;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Animate changes")
+      .setDesc(
+        "Words glide to their new places when you center a word, and new words fade in. Always off when your system asks for reduced motion."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.animate)
+          .onChange(async (value) => {
+            this.plugin.settings.animate = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Groups heading
+    new Setting(containerEl).setName("Groups").setHeading();
+
+    containerEl.createEl("p", {
+      text: "Headings such as # Characters split a list into groups, each in its own color.",
+      cls: "word-cloud-palette-desc",
+    });
+
+    new Setting(containerEl)
+      .setName("Cluster groups")
+      .setDesc("Gather each group's words in its own part of the cloud")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.clusterGroups)
+          .onChange(async (value) => {
+            this.plugin.settings.clusterGroups = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Show legend")
+      .setDesc(
+        "List the groups in a corner of the cloud. Click one to highlight it."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showLegend)
+          .onChange(async (value) => {
+            this.plugin.settings.showLegend = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     // Color palette heading
     new Setting(containerEl).setName("Color palette").setHeading();
 
+    new Setting(containerEl)
+      .setName("Color mode")
+      .setDesc("How words get their colors")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("random", "Random colors from the palette")
+          .addOption("gradient", "Gradient through the palette by size")
+          .addOption("group", "One palette color per group")
+          .addOption("theme", "Theme colors – follow light and dark mode")
+          .setValue(this.plugin.settings.colorMode)
+          .onChange(async (value) => {
+            this.plugin.settings.colorMode = value as ColorMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Keep colors readable")
+      .setDesc(
+        "Darken or lighten colors that don't meet WCAG contrast against the note background"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.contrastCheck)
+          .onChange(async (value) => {
+            this.plugin.settings.contrastCheck = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     containerEl.createEl("p", {
       text: "Colors used for words in the cloud. Click a color to change it, or add and remove colors.",
       cls: "word-cloud-palette-desc",
@@ -917,5 +2273,337 @@ class WordCloudSettingTab extends PluginSettingTab {
           new Notice("Color palette reset to defaults");
         })
       );
+
+    this.displayPaletteLibrary(containerEl, renderColorPalette);
+
+    // Export heading
+    new Setting(containerEl).setName("Export").setHeading();
+
+    new Setting(containerEl)
+      .setName("Export folder")
+      .setDesc("Vault folder where exported word clouds are saved")
+      .addText((text) =>
+        text
+          .setPlaceholder("Word clouds")
+          .setValue(this.plugin.settings.exportFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.exportFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Also export PNG")
+      .setDesc("Save a PNG image next to the SVG file")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.exportPng)
+          .onChange(async (value) => {
+            this.plugin.settings.exportPng = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Insert embed")
+      .setDesc(
+        "When exporting with the command, embed the exported image at the cursor (the PNG if there is one)"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.exportEmbed)
+          .onChange(async (value) => {
+            this.plugin.settings.exportEmbed = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Click actions heading
+    new Setting(containerEl).setName("Click actions").setHeading();
+
+    const addClickActionOptions = (dropdown: DropdownComponent) =>
+      dropdown
+        .addOption("recenter", "Center the word")
+        .addOption("open", "Open the note named after the word")
+        .addOption("open-or-create", "Open or create the note")
+        .addOption("search", "Search the vault for the word");
+
+    new Setting(containerEl)
+      .setName("Click")
+      .setDesc("What happens when you click or tap a word")
+      .addDropdown((dropdown) =>
+        addClickActionOptions(dropdown)
+          .setValue(this.plugin.settings.clickAction)
+          .onChange(async (value) => {
+            this.plugin.settings.clickAction = value as ClickAction;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Ctrl/Cmd + click")
+      .setDesc("What happens when you click a word while holding Ctrl or Cmd")
+      .addDropdown((dropdown) =>
+        addClickActionOptions(dropdown)
+          .setValue(this.plugin.settings.modClickAction)
+          .onChange(async (value) => {
+            this.plugin.settings.modClickAction = value as ClickAction;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("New note folder")
+      .setDesc(
+        "Where notes created from words go. Leave empty to use the default location for new notes."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Ideas")
+          .setValue(this.plugin.settings.newNoteFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.newNoteFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("New note template")
+      .setDesc(
+        "Note used as the starting content of notes created from words. {{word}}, {{date}} and {{time}} are filled in."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Templates/Provocation")
+          .setValue(this.plugin.settings.noteTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.noteTemplate = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Journal heading
+    new Setting(containerEl).setName("Provocation journal").setHeading();
+
+    new Setting(containerEl)
+      .setName("Log chosen words")
+      .setDesc(
+        "Append every word you click, with the time and the note it came from, to a journal"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.logWords)
+          .onChange(async (value) => {
+            this.plugin.settings.logWords = value;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.logWords) {
+      new Setting(containerEl)
+        .setName("Log to")
+        .setDesc("Where chosen words are written")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("note", "A journal note")
+            .addOption("daily", "Today's daily note")
+            .setValue(this.plugin.settings.logTarget)
+            .onChange(async (value) => {
+              this.plugin.settings.logTarget = value as JournalTarget;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      if (this.plugin.settings.logTarget === "note") {
+        new Setting(containerEl)
+          .setName("Journal note")
+          .setDesc("Path of the note words are appended to")
+          .addText((text) =>
+            text
+              .setPlaceholder("Provocations.md")
+              .setValue(this.plugin.settings.logNote)
+              .onChange(async (value) => {
+                this.plugin.settings.logNote = value.trim();
+                await this.plugin.saveSettings();
+              })
+          );
+      }
+    }
+  }
+
+  // Saved palettes, with the presets below them. Any of them can become
+  // the default palette, and blocks pick one with `palette: Name`.
+  displayPaletteLibrary(containerEl: HTMLElement, onDefaultChange: () => void) {
+    new Setting(containerEl).setName("Palette library").setHeading();
+
+    const savePalettes = async (palettes: NamedPalette[]) => {
+      this.plugin.settings.palettes = palettes;
+      await this.plugin.saveSettings();
+      this.display();
+    };
+
+    const useAsDefault = async (palette: NamedPalette) => {
+      this.plugin.settings.colorPalette = [...palette.colors];
+      await this.plugin.saveSettings();
+      onDefaultChange();
+      new Notice(`"${palette.name}" is now the default palette`);
+    };
+
+    const duplicate = (palette: NamedPalette) =>
+      savePalettes([
+        ...this.plugin.settings.palettes,
+        {
+          name: uniquePaletteName(this.plugin.settings.palettes, palette.name),
+          colors: [...palette.colors],
+        },
+      ]);
+
+    const copyJson = async (palettes: NamedPalette[]) => {
+      try {
+        await navigator.clipboard.writeText(exportPalettes(palettes));
+        new Notice("Palette copied to the clipboard as JSON");
+      } catch (error) {
+        console.error("Word cloud palette export error:", error);
+        new Notice("Could not copy the palette");
+      }
+    };
+
+    const addSwatches = (setting: Setting, colors: string[]) => {
+      const swatches = setting.descEl.createDiv("word-cloud-palette-swatches");
+      colors.forEach((color) =>
+        swatches
+          .createSpan("word-cloud-palette-chip")
+          .setCssProps({ "--wc-color": color })
+      );
+    };
+
+    let newName = "";
+    new Setting(containerEl)
+      .setName("Save default palette")
+      .setDesc("Add the palette above to the library under a name")
+      .addText((text) =>
+        text.setPlaceholder("Palette name").onChange((value) => {
+          newName = value;
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText("Save").onClick(() =>
+          savePalettes([
+            ...this.plugin.settings.palettes,
+            {
+              name: uniquePaletteName(
+                this.plugin.settings.palettes,
+                newName || "Palette"
+              ),
+              colors: [...this.plugin.settings.colorPalette],
+            },
+          ])
+        )
+      )
+      .addButton((button) =>
+        button.setButtonText("Import").onClick(() =>
+          new PaletteImportModal(this.app, (imported) =>
+            savePalettes([
+              ...this.plugin.settings.palettes,
+              ...imported.reduce<NamedPalette[]>(
+                (added, palette) => [
+                  ...added,
+                  {
+                    ...palette,
+                    name: uniquePaletteName(
+                      [...this.plugin.settings.palettes, ...added],
+                      palette.name
+                    ),
+                  },
+                ],
+                []
+              ),
+            ])
+          ).open()
+        )
+      );
+
+    this.plugin.settings.palettes.forEach((palette, index) => {
+      const setting = new Setting(containerEl)
+        .addText((text) =>
+          text.setValue(palette.name).onChange(async (value) => {
+            const name = value.trim();
+            const others = this.plugin.settings.palettes.filter(
+              (_, i) => i !== index
+            );
+            const taken = others.some(
+              (other) => other.name.toLowerCase() === name.toLowerCase()
+            );
+            if (!name || taken) return;
+            palette.name = name;
+            await this.plugin.saveSettings();
+          })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("check")
+            .setTooltip("Use as default")
+            .onClick(() => useAsDefault(palette))
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("copy")
+            .setTooltip("Duplicate")
+            .onClick(() => duplicate(palette))
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("clipboard-copy")
+            .setTooltip("Copy as JSON")
+            .onClick(() => copyJson([palette]))
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete")
+            .onClick(() =>
+              savePalettes(
+                this.plugin.settings.palettes.filter((_, i) => i !== index)
+              )
+            )
+        );
+      addSwatches(setting, palette.colors);
+    });
+
+    if (this.plugin.settings.palettes.length > 1) {
+      new Setting(containerEl)
+        .setName("Export library")
+        .setDesc("Copy all saved palettes to the clipboard as JSON")
+        .addButton((button) =>
+          button
+            .setButtonText("Copy all")
+            .onClick(() => copyJson(this.plugin.settings.palettes))
+        );
+    }
+
+    containerEl.createEl("p", {
+      text: "Presets",
+      cls: "word-cloud-palette-desc",
+    });
+
+    PRESET_PALETTES.forEach((palette) => {
+      const setting = new Setting(containerEl)
+        .setName(palette.name)
+        .addExtraButton((button) =>
+          button
+            .setIcon("check")
+            .setTooltip("Use as default")
+            .onClick(() => useAsDefault(palette))
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("copy")
+            .setTooltip("Duplicate into the library")
+            .onClick(() => duplicate(palette))
+        );
+      addSwatches(setting, palette.colors);
+    });
   }
 }
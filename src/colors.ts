@@ -0,0 +1,109 @@
+export type ColorMode = "random" | "gradient" | "group" | "theme";
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Obsidian's accent colors, which every theme tunes for light and dark mode
+export const THEME_COLORS = [
+  "var(--color-red)",
+  "var(--color-orange)",
+  "var(--color-yellow)",
+  "var(--color-green)",
+  "var(--color-cyan)",
+  "var(--color-blue)",
+  "var(--color-purple)",
+  "var(--color-pink)",
+];
+
+const BLACK: Rgb = { r: 0, g: 0, b: 0 };
+const WHITE: Rgb = { r: 255, g: 255, b: 255 };
+
+// Hex colors and the rgb()/rgba() form browsers compute colors to
+export function parseColor(color: string): Rgb | null {
+  const text = color.trim().toLowerCase();
+
+  const hex = text.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits =
+      hex[1].length === 3 ? hex[1].replace(/(.)/g, "$1$1") : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+    };
+  }
+
+  const rgb = text.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/);
+  if (rgb) {
+    return {
+      r: parseFloat(rgb[1]),
+      g: parseFloat(rgb[2]),
+      b: parseFloat(rgb[3]),
+    };
+  }
+
+  return null;
+}
+
+export function toHex({ r, g, b }: Rgb): string {
+  return (
+    "#" +
+    [r, g, b]
+      .map((c) =>
+        Math.round(Math.min(255, Math.max(0, c)))
+          .toString(16)
+          .padStart(2, "0")
+      )
+      .join("")
+  );
+}
+
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return {
+    r: a.r + (b.r - a.r) * t,
+    g: a.g + (b.g - a.g) * t,
+    b: a.b + (b.b - a.b) * t,
+  };
+}
+
+// Color at t (0 to 1) along evenly spaced gradient stops
+export function gradientColor(stops: Rgb[], t: number): Rgb {
+  if (stops.length === 1) return stops[0];
+  const position = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  return mix(stops[index], stops[index + 1], position - index);
+}
+
+// WCAG relative luminance
+function luminance({ r, g, b }: Rgb): number {
+  const [lr, lg, lb] = [r, g, b].map((c) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const la = luminance(a);
+  const lb = luminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+// Move a color towards black or white, away from the background, just far
+// enough to reach the contrast ratio
+export function ensureContrast(
+  color: Rgb,
+  background: Rgb,
+  minRatio: number
+): Rgb {
+  if (contrastRatio(color, background) >= minRatio) return color;
+  const target = luminance(background) > 0.5 ? BLACK : WHITE;
+  for (let t = 0.05; t < 1; t += 0.05) {
+    const nudged = mix(color, target, t);
+    if (contrastRatio(nudged, background) >= minRatio) return nudged;
+  }
+  return target;
+}
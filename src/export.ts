@@ -0,0 +1,143 @@
+import { App, TFile, moment, normalizePath } from "obsidian";
+
+export interface ExportOptions {
+  folder: string;
+  png: boolean;
+  baseName: string;
+}
+
+export interface ExportedCloud {
+  svg: TFile;
+  png?: TFile;
+}
+
+// Scale PNGs up so they stay sharp on high density screens and in slides
+const PNG_SCALE = 2;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Standalone SVG of a rendered cloud, using the same positions, rotations,
+// colors and fonts as the word elements on screen
+export function cloudToSvg(container: HTMLElement): string {
+  // Clouds drawn by the SVG renderer only need their colors written out,
+  // since outside the note there are no theme variables
+  const drawn = container.querySelector("svg.word-cloud-svg");
+  if (drawn) {
+    const copy = drawn.cloneNode(true) as Element;
+    const texts = Array.from(drawn.querySelectorAll("text"));
+    Array.from(copy.querySelectorAll("text")).forEach((text, i) => {
+      text.removeAttribute("style");
+      text.setAttribute("fill", getComputedStyle(texts[i]).fill);
+    });
+    return new XMLSerializer().serializeToString(copy) + "\n";
+  }
+
+  const width = container.clientWidth;
+  const height = container.clientHeight;
+  const words = Array.from(
+    container.querySelectorAll<HTMLElement>(".word-cloud-word")
+  );
+
+  const texts = words.map((tag) => {
+    const style = getComputedStyle(tag);
+    const centerX = tag.offsetLeft + tag.offsetWidth / 2;
+    const centerY = tag.offsetTop + tag.offsetHeight / 2;
+    const rotation = parseFloat(tag.dataset.rotation || "0");
+    const scale = tag.dataset.isCentered === "true" ? 1.2 : 1;
+    // Same as the CSS rotate() scale() around the word's center
+    const transform =
+      `rotate(${rotation} ${centerX} ${centerY}) ` +
+      `translate(${centerX} ${centerY}) scale(${scale}) ` +
+      `translate(${-centerX} ${-centerY})`;
+
+    return (
+      `  <text x="${centerX}" y="${centerY}" text-anchor="middle" ` +
+      `dominant-baseline="central" transform="${transform}" ` +
+      `font-family="${escapeXml(style.fontFamily)}" ` +
+      `font-size="${style.fontSize}" font-weight="${style.fontWeight}" ` +
+      `font-style="${style.fontStyle}" ` +
+      `letter-spacing="${style.letterSpacing}" ` +
+      `fill="${style.color}">${escapeXml(tag.textContent || "")}</text>`
+    );
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...texts,
+    "</svg>",
+    "",
+  ].join("\n");
+}
+
+// Rasterize an SVG through an offscreen canvas
+export function svgToPng(
+  svg: string,
+  width: number,
+  height: number
+): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(
+      new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+    );
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = width * PNG_SCALE;
+      canvas.height = height * PNG_SCALE;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Could not get canvas context"));
+        return;
+      }
+      ctx.scale(PNG_SCALE, PNG_SCALE);
+      ctx.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => {
+        if (!blob) reject(new Error("Could not create PNG"));
+        else blob.arrayBuffer().then(resolve, reject);
+      }, "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not load SVG for rasterizing"));
+    };
+    image.src = url;
+  });
+}
+
+// Write the cloud into the export folder as SVG, and as PNG if asked to
+export async function exportCloud(
+  app: App,
+  container: HTMLElement,
+  options: ExportOptions
+): Promise<ExportedCloud> {
+  const folder = normalizePath(options.folder || "/");
+  if (folder !== "/" && !app.vault.getAbstractFileByPath(folder)) {
+    await app.vault.createFolder(folder);
+  }
+
+  const name = `${options.baseName} ${moment().format("YYYYMMDD-HHmmss")}`;
+  const basePath = normalizePath(`${folder}/${name}`);
+  const svg = cloudToSvg(container);
+  const exported: ExportedCloud = {
+    svg: await app.vault.create(`${basePath}.svg`, svg),
+  };
+
+  if (options.png) {
+    const png = await svgToPng(
+      svg,
+      container.clientWidth,
+      container.clientHeight
+    );
+    exported.png = await app.vault.createBinary(`${basePath}.png`, png);
+  }
+
+  return exported;
+}
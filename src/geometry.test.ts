@@ -0,0 +1,40 @@
+import { PlacedRect, rectsOverlap } from "./geometry";
+
+const rect = (
+  centerX: number,
+  centerY: number,
+  width: number,
+  height: number,
+  rotation = 0
+): PlacedRect => ({ centerX, centerY, width, height, rotation });
+
+describe("rectsOverlap", () => {
+  it("finds overlapping boxes", () => {
+    expect(rectsOverlap(rect(0, 0, 10, 10), rect(5, 5, 10, 10), 0)).toBe(true);
+  });
+
+  it("separates boxes apart", () => {
+    expect(rectsOverlap(rect(0, 0, 10, 10), rect(20, 0, 10, 10), 0)).toBe(
+      false
+    );
+  });
+
+  it("counts touching boxes as overlapping", () => {
+    expect(rectsOverlap(rect(0, 0, 10, 10), rect(10, 0, 10, 10), 0)).toBe(true);
+  });
+
+  it("grows both boxes by the padding", () => {
+    const a = rect(0, 0, 10, 10);
+    const b = rect(14, 0, 10, 10);
+    expect(rectsOverlap(a, b, 1)).toBe(false);
+    expect(rectsOverlap(a, b, 2)).toBe(true);
+  });
+
+  it("uses the rotated outline, not the bounding box", () => {
+    // The bounding boxes of these diagonal words overlap, the words don't
+    const a = rect(0, 0, 100, 10, 45);
+    const b = rect(30, -30, 100, 10, 45);
+    expect(rectsOverlap(a, b, 0)).toBe(false);
+    expect(rectsOverlap(a, rect(0, 0, 100, 10, -45), 0)).toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+import { Bounds } from "./spatial";
+
+// A word's box, centered on its position and rotated around its center
+export interface PlacedRect {
+  centerX: number;
+  centerY: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+// A word's box before it has a position
+export type WordBox = Omit<PlacedRect, "centerX" | "centerY">;
+
+interface Corner {
+  x: number;
+  y: number;
+}
+
+function getCorners(rect: PlacedRect, padding: number): Corner[] {
+  const radians = (rect.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const halfWidth = rect.width / 2 + padding;
+  const halfHeight = rect.height / 2 + padding;
+
+  return [
+    [-halfWidth, -halfHeight],
+    [halfWidth, -halfHeight],
+    [halfWidth, halfHeight],
+    [-halfWidth, halfHeight],
+  ].map(([x, y]) => ({
+    x: rect.centerX + x * cos - y * sin,
+    y: rect.centerY + x * sin + y * cos,
+  }));
+}
+
+// Half the width and height of the axis-aligned box around a rotated word,
+// grown by the padding. They only depend on the word's size and angle, so
+// a layout works them out once per word rather than once per position.
+export function getRotatedExtents(
+  rect: WordBox,
+  padding = 0
+): { halfWidth: number; halfHeight: number } {
+  const radians = (rect.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const halfWidth = rect.width / 2 + padding;
+  const halfHeight = rect.height / 2 + padding;
+  return {
+    halfWidth: halfWidth * cos + halfHeight * sin,
+    halfHeight: halfWidth * sin + halfHeight * cos,
+  };
+}
+
+// Axis-aligned box around a rotated word, grown by the padding
+export function getRotatedBounds(rect: PlacedRect, padding = 0): Bounds {
+  const { halfWidth, halfHeight } = getRotatedExtents(rect, padding);
+  return {
+    left: rect.centerX - halfWidth,
+    top: rect.centerY - halfHeight,
+    right: rect.centerX + halfWidth,
+    bottom: rect.centerY + halfHeight,
+  };
+}
+
+// Whether a point lies inside a rotated word grown by the padding
+export function containsPoint(
+  rect: PlacedRect,
+  x: number,
+  y: number,
+  padding = 0
+): boolean {
+  const radians = (rect.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = x - rect.centerX;
+  const dy = y - rect.centerY;
+  return (
+    Math.abs(dx * cos + dy * sin) <= rect.width / 2 + padding &&
+    Math.abs(-dx * sin + dy * cos) <= rect.height / 2 + padding
+  );
+}
+
+function project(corners: Corner[], axisX: number, axisY: number) {
+  let min = Infinity;
+  let max = -Infinity;
+  corners.forEach((c) => {
+    const value = c.x * axisX + c.y * axisY;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  return { min, max };
+}
+
+// Separating axis test for two rotated words, each grown by the padding.
+// Boxes that only touch count as overlapping.
+export function rectsOverlap(
+  a: PlacedRect,
+  b: PlacedRect,
+  padding: number
+): boolean {
+  const cornersA = getCorners(a, padding);
+  const cornersB = getCorners(b, padding);
+
+  return [a.rotation, b.rotation].every((rotation) => {
+    const radians = (rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    // The two edge directions of a rectangle are its only separating axes
+    return [
+      [cos, sin],
+      [-sin, cos],
+    ].every(([axisX, axisY]) => {
+      const projA = project(cornersA, axisX, axisY);
+      const projB = project(cornersB, axisX, axisY);
+      return !(projA.max < projB.min || projB.max < projA.min);
+    });
+  });
+}
+
+// Points along a rotated word's outline, no further apart than `spacing`,
+// plus its center. Used to check a word fits inside a shape.
+export function getOutlinePoints(
+  rect: PlacedRect,
+  spacing: number
+): { x: number; y: number }[] {
+  const corners = getCorners(rect, 0);
+  const points = [{ x: rect.centerX, y: rect.centerY }];
+
+  corners.forEach((from, i) => {
+    const to = corners[(i + 1) % corners.length];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    const steps = Math.max(1, Math.ceil(length / spacing));
+    for (let step = 0; step < steps; step++) {
+      const t = step / steps;
+      points.push({
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+      });
+    }
+  });
+
+  return points;
+}
+
+export type Direction = "left" | "right" | "up" | "down";
+
+const DIRECTION_VECTORS: Record<Direction, [number, number]> = {
+  left: [-1, 0],
+  right: [1, 0],
+  up: [0, -1],
+  down: [0, 1],
+};
+
+// The rect nearest to `from` in a direction. Rects straight ahead win over
+// closer ones far off to the side.
+export function nearestInDirection<T extends PlacedRect>(
+  from: PlacedRect,
+  rects: T[],
+  direction: Direction
+): T | null {
+  const [dirX, dirY] = DIRECTION_VECTORS[direction];
+  let nearest: T | null = null;
+  let nearestScore = Infinity;
+
+  for (const rect of rects) {
+    const dx = rect.centerX - from.centerX;
+    const dy = rect.centerY - from.centerY;
+    const ahead = dx * dirX + dy * dirY;
+    if (ahead <= 0) continue;
+    const aside = Math.abs(dx * dirY - dy * dirX);
+    const score = ahead + aside * 2;
+    if (score < nearestScore) {
+      nearest = rect;
+      nearestScore = score;
+    }
+  }
+
+  return nearest;
+}
@@ -0,0 +1,96 @@
+import { App, TFile } from "obsidian";
+import { ShapeMask } from "./shapes";
+
+// Alpha a mask image pixel needs before words may cover it
+const OPAQUE_ALPHA = 128;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load the shape image"));
+    image.src = src;
+  });
+}
+
+// Mask from an image in the vault, scaled to fit the container. Words go on
+// its opaque pixels, or on its dark pixels when the image has no transparency.
+export async function loadImageMask(
+  app: App,
+  path: string,
+  sourcePath: string,
+  width: number,
+  height: number,
+  margin: number
+): Promise<ShapeMask> {
+  const file = app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+  if (!(file instanceof TFile)) {
+    throw new Error(`Shape image "${path}" not found`);
+  }
+
+  // Loaded from its bytes rather than its resource URL, which the canvas
+  // may count as another origin and refuse to read back
+  const type = file.extension.toLowerCase() === "svg" ? "image/svg+xml" : "";
+  const url = URL.createObjectURL(
+    new Blob([await app.vault.readBinary(file)], { type })
+  );
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.floor(width));
+  canvas.height = Math.max(1, Math.floor(height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const scale = Math.min(
+    (width - margin * 2) / image.naturalWidth,
+    (height - margin * 2) / image.naturalHeight
+  );
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(
+    image,
+    (width - drawWidth) / 2,
+    (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const inImage = (i: number) => {
+    const x = (i / 4) % canvas.width;
+    const y = Math.floor(i / 4 / canvas.width);
+    return (
+      x >= (width - drawWidth) / 2 &&
+      x < (width + drawWidth) / 2 &&
+      y >= (height - drawHeight) / 2 &&
+      y < (height + drawHeight) / 2
+    );
+  };
+  let hasTransparency = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < OPAQUE_ALPHA && inImage(i - 3)) {
+      hasTransparency = true;
+      break;
+    }
+  }
+
+  return {
+    contains: (x, y) => {
+      const px = Math.floor(x);
+      const py = Math.floor(y);
+      if (px < 0 || py < 0 || px >= canvas.width || py >= canvas.height) {
+        return false;
+      }
+      const i = (py * canvas.width + px) * 4;
+      if (hasTransparency) return data[i + 3] >= OPAQUE_ALPHA;
+      const luminance =
+        0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      return data[i + 3] >= OPAQUE_ALPHA && luminance < 128;
+    },
+  };
+}
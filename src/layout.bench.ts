@@ -0,0 +1,75 @@
+// Times the layout of large clouds. Run with `npm run bench`; it's kept out
+// of `npm test` because timings depend on the machine.
+import {
+  LayoutOptions,
+  MeasureFn,
+  SPACING_CONFIG,
+  computeLayout,
+} from "./layout";
+import { createSeededRandom } from "./random";
+import { estimateTextWidth } from "./typography";
+import { WordEntry } from "./words";
+
+const RUNS = 5;
+const SIZES = [
+  [1400, 1100],
+  [1600, 1200],
+  [2000, 1500],
+];
+
+const measure: MeasureFn = (word, fontSize) => ({
+  width: estimateTextWidth(word, fontSize),
+  height: fontSize * 1.2,
+});
+
+// Words three to ten letters long, weighted like a frequency list
+function makeVocabulary(count: number): WordEntry[] {
+  const random = createSeededRandom(7);
+  const letters = "abcdefghijklmnopqrstuvwxyz";
+  return Array.from({ length: count }, (_, i) => {
+    const length = 3 + Math.floor(random() * 8);
+    const word = Array.from(
+      { length },
+      () => letters[Math.floor(random() * letters.length)]
+    ).join("");
+    return { word: `${word}${i}`, weight: 1 + Math.floor(random() * 20) };
+  });
+}
+
+function makeOptions(width: number, height: number): LayoutOptions {
+  return {
+    width,
+    height,
+    minFontSize: 10,
+    maxFontSize: 22,
+    sizeScale: "linear",
+    fontWeights: ["bold"],
+    spacing: SPACING_CONFIG.compact,
+    colors: ["#000000"],
+    colorMode: "random",
+    rotation: {
+      rotationMode: "mixed",
+      rotationAngles: [],
+      rotationRange: [-60, 60],
+    },
+    seed: 1,
+    centeredWord: null,
+  };
+}
+
+const entries = makeVocabulary(500);
+for (const [width, height] of SIZES) {
+  const options = makeOptions(width, height);
+  const times: number[] = [];
+  let placed = 0;
+  for (let run = 0; run < RUNS; run++) {
+    const start = Date.now();
+    placed = computeLayout(entries, options, measure).placed.length;
+    times.push(Date.now() - start);
+  }
+  times.sort((a, b) => a - b);
+  console.log(
+    `${width}x${height}: ${placed}/${entries.length} words placed, ` +
+      `median ${times[Math.floor(RUNS / 2)]} ms over ${RUNS} runs`
+  );
+}
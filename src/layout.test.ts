@@ -0,0 +1,178 @@
+import { rectsOverlap } from "./geometry";
+import {
+  LayoutOptions,
+  MeasureFn,
+  SPACING_CONFIG,
+  computeLayout,
+  getAutoFontSizes,
+  getAutoSpacing,
+} from "./layout";
+import { createSeededRandom } from "./random";
+import { createShapeMask } from "./shapes";
+import { estimateTextWidth } from "./typography";
+import { WordEntry } from "./words";
+
+const measure: MeasureFn = (word, fontSize) => ({
+  width: estimateTextWidth(word, fontSize),
+  height: fontSize * 1.2,
+});
+
+const makeEntries = (count: number): WordEntry[] =>
+  Array.from({ length: count }, (_, i) => ({
+    word: `word${i}`,
+    weight: (i % 7) + 1,
+  }));
+
+const makeOptions = (
+  overrides: Partial<LayoutOptions> = {}
+): LayoutOptions => ({
+  width: 800,
+  height: 500,
+  minFontSize: 10,
+  maxFontSize: 22,
+  sizeScale: "linear",
+  fontWeights: ["bold"],
+  spacing: SPACING_CONFIG.compact,
+  colors: ["#000000"],
+  colorMode: "random",
+  rotation: {
+    rotationMode: "mixed",
+    rotationAngles: [],
+    rotationRange: [-60, 60],
+  },
+  seed: 1,
+  centeredWord: null,
+  ...overrides,
+});
+
+describe("getAutoSpacing", () => {
+  it("tightens as word counts grow", () => {
+    expect(getAutoSpacing(5)).toBe(SPACING_CONFIG.loose);
+    expect(getAutoSpacing(20)).toBe(SPACING_CONFIG.comfortable);
+    expect(getAutoSpacing(40)).toBe(SPACING_CONFIG.normal);
+    expect(getAutoSpacing(41)).toBe(SPACING_CONFIG.compact);
+  });
+
+  it("is tighter on mobile", () => {
+    expect(getAutoSpacing(5, true)).toBe(SPACING_CONFIG.comfortable);
+    expect(getAutoSpacing(20, true)).toBe(SPACING_CONFIG.normal);
+    expect(getAutoSpacing(21, true)).toBe(SPACING_CONFIG.compact);
+  });
+});
+
+describe("getAutoFontSizes", () => {
+  it("shrinks as word counts grow", () => {
+    expect(getAutoFontSizes(10)).toEqual({ min: 20, max: 56 });
+    expect(getAutoFontSizes(70)).toEqual({ min: 12, max: 28 });
+    expect(getAutoFontSizes(500)).toEqual({ min: 10, max: 22 });
+  });
+
+  it("is smaller on mobile", () => {
+    expect(getAutoFontSizes(10, true)).toEqual({ min: 14, max: 32 });
+    expect(getAutoFontSizes(500, true)).toEqual({ min: 8, max: 14 });
+  });
+
+  it("never has a minimum above the maximum", () => {
+    for (const count of [1, 15, 30, 60, 100]) {
+      for (const isMobile of [false, true]) {
+        const { min, max } = getAutoFontSizes(count, isMobile);
+        expect(min).toBeLessThan(max);
+      }
+    }
+  });
+});
+
+describe("computeLayout", () => {
+  const expectNoOverlaps = (options: LayoutOptions, count: number) => {
+    const { placed, failed } = computeLayout(
+      makeEntries(count),
+      options,
+      measure
+    );
+    expect(placed.length + failed.length).toBe(count);
+    expect(placed.length).toBeGreaterThan(0);
+
+    const overlapping: string[] = [];
+    for (let i = 0; i < placed.length; i++) {
+      for (let j = i + 1; j < placed.length; j++) {
+        if (rectsOverlap(placed[i], placed[j], 0)) {
+          overlapping.push(`${placed[i].word} and ${placed[j].word}`);
+        }
+      }
+    }
+    expect(overlapping).toEqual([]);
+  };
+
+  it("never overlaps two words", () => {
+    for (const seed of [1, 2, 3]) {
+      expectNoOverlaps(makeOptions({ seed }), 150);
+    }
+  });
+
+  it("never overlaps words at any angle", () => {
+    expectNoOverlaps(
+      makeOptions({
+        rotation: {
+          rotationMode: "range",
+          rotationAngles: [],
+          rotationRange: [-60, 60],
+        },
+      }),
+      100
+    );
+  });
+
+  it("never overlaps words in a shape", () => {
+    expectNoOverlaps(
+      makeOptions({ mask: createShapeMask("heart", 800, 500, 5) }),
+      100
+    );
+  });
+
+  it("keeps words inside the container", () => {
+    const options = makeOptions();
+    const { placed } = computeLayout(makeEntries(150), options, measure);
+    for (const word of placed) {
+      expect(word.centerX).toBeGreaterThan(0);
+      expect(word.centerX).toBeLessThan(options.width);
+      expect(word.centerY).toBeGreaterThan(0);
+      expect(word.centerY).toBeLessThan(options.height);
+    }
+  });
+
+  it("gives the same layout for the same seed", () => {
+    const entries = makeEntries(50);
+    const first = computeLayout(entries, makeOptions(), measure);
+    const second = computeLayout(entries, makeOptions(), measure);
+    expect(second).toEqual(first);
+  });
+});
+
+describe("computeLayout with a large list", () => {
+  // Words three to ten letters long, weighted like a frequency list
+  const makeVocabulary = (count: number): WordEntry[] => {
+    const random = createSeededRandom(7);
+    const letters = "abcdefghijklmnopqrstuvwxyz";
+    return Array.from({ length: count }, (_, i) => {
+      const length = 3 + Math.floor(random() * 8);
+      const word = Array.from(
+        { length },
+        () => letters[Math.floor(random() * letters.length)]
+      ).join("");
+      return { word: `${word}${i}`, weight: 1 + Math.floor(random() * 20) };
+    });
+  };
+
+  // How long this takes is measured by `npm run bench`, not here
+  it("fits all 500 words in a cloud with room for them", () => {
+    const entries = makeVocabulary(500);
+    const { placed, failed } = computeLayout(
+      entries,
+      makeOptions({ width: 2000, height: 1500 }),
+      measure
+    );
+
+    expect(failed).toEqual([]);
+    expect(placed).toHaveLength(500);
+  });
+});
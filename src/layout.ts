@@ -0,0 +1,541 @@
+import {
+  ColorMode,
+  Rgb,
+  ensureContrast,
+  gradientColor,
+  parseColor,
+  toHex,
+} from "./colors";
+import {
+  PlacedRect,
+  WordBox,
+  containsPoint,
+  getRotatedBounds,
+  getRotatedExtents,
+  rectsOverlap,
+} from "./geometry";
+import { createSeededRandom, hashSeed, shuffle } from "./random";
+import { RotationSettings, pickRotation } from "./rotation";
+import { ShapeMask, fitsShape } from "./shapes";
+import { Bounds, OccupancyGrid, SpatialGrid } from "./spatial";
+import { fontWeightForSize } from "./typography";
+import {
+  SizeScale,
+  WordEntry,
+  getWeightRange,
+  getWeightedFontSize,
+} from "./words";
+
+// Spacing configurations
+export const SPACING_CONFIG = {
+  compact: { padding: 3, margin: 5, startRadius: 1, spiralStep: 1.5 },
+  normal: { padding: 12, margin: 12, startRadius: 5, spiralStep: 4 },
+  comfortable: { padding: 22, margin: 18, startRadius: 12, spiralStep: 7 },
+  loose: { padding: 35, margin: 25, startRadius: 20, spiralStep: 10 },
+};
+
+export type SpacingConfig = (typeof SPACING_CONFIG)["normal"];
+
+// Extra room around the measured text of every word
+const WORD_BOX_PADDING = 8;
+
+// Cells of the occupancy grid, and how far apart the points of a word that
+// are looked up in it are
+const OCCUPANCY_CELL_SIZE = 4;
+const PROBE_SPACING = 8;
+
+// Positions tried per word before giving up on it
+const MAX_ATTEMPTS = 50000;
+
+// Auto-calculated spacing based on word count and screen size
+export function getAutoSpacing(
+  wordCount: number,
+  isMobile: boolean = false
+): SpacingConfig {
+  if (isMobile) {
+    if (wordCount <= 10) return SPACING_CONFIG["comfortable"];
+    else if (wordCount <= 20) return SPACING_CONFIG["normal"];
+    else return SPACING_CONFIG["compact"];
+  }
+  if (wordCount <= 10) return SPACING_CONFIG["loose"];
+  else if (wordCount <= 20) return SPACING_CONFIG["comfortable"];
+  else if (wordCount <= 40) return SPACING_CONFIG["normal"];
+  else return SPACING_CONFIG["compact"];
+}
+
+// Auto-calculated font sizes based on word count and screen size
+export function getAutoFontSizes(
+  wordCount: number,
+  isMobile: boolean = false
+): { min: number; max: number } {
+  if (isMobile) {
+    if (wordCount <= 10) return { min: 14, max: 32 };
+    else if (wordCount <= 20) return { min: 12, max: 26 };
+    else if (wordCount <= 40) return { min: 10, max: 20 };
+    else if (wordCount <= 70) return { min: 9, max: 16 };
+    else return { min: 8, max: 14 };
+  }
+  if (wordCount <= 10) return { min: 20, max: 56 };
+  else if (wordCount <= 20) return { min: 16, max: 40 };
+  else if (wordCount <= 40) return { min: 14, max: 32 };
+  else if (wordCount <= 70) return { min: 12, max: 28 };
+  else return { min: 10, max: 22 };
+}
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  minFontSize: number;
+  maxFontSize: number;
+  sizeScale: SizeScale;
+  // Spread over the font sizes, lightest for the smallest words
+  fontWeights: string[];
+  spacing: SpacingConfig;
+  colors: string[];
+  colorMode: ColorMode;
+  // Note background that word colors are nudged to stay readable on
+  contrastBackground?: string | null;
+  rotation: RotationSettings;
+  seed: number;
+  centeredWord: string | null;
+  mask?: ShapeMask | null;
+  // Grow each group of words around its own spot instead of the center
+  clusterGroups?: boolean;
+}
+
+// Size of a word's text at a font size and weight, supplied by whoever draws
+// the cloud
+export type MeasureFn = (
+  word: string,
+  fontSize: number,
+  fontWeight: string
+) => { width: number; height: number };
+
+// Where and how to draw one word. The box is centered on centerX/centerY and
+// rotated around that point.
+export interface Placement extends PlacedRect {
+  word: string;
+  fontSize: number;
+  fontWeight: string;
+  color: string;
+  isCentered: boolean;
+  group?: string;
+}
+
+// Words that found a spot, in placement order, and words that didn't fit
+export interface LayoutResult {
+  placed: Placement[];
+  failed: string[];
+}
+
+// Places words one at a time, the centered word first and the rest along a
+// spiral around it, yielding each word as soon as it has a spot. Words that
+// don't fit are skipped and reported in the result the generator returns.
+// Callers can stop early or spread the work over several frames.
+export function* layoutWords(
+  entries: WordEntry[],
+  options: LayoutOptions,
+  measure: MeasureFn
+): Generator<Placement, LayoutResult, undefined> {
+  const { centeredWord, minFontSize, maxFontSize, spacing } = options;
+  const { width: containerWidth, height: containerHeight } = options;
+
+  // Each centered word gets its own stream, so a layout only depends on
+  // the seed and the word in the middle
+  const random = createSeededRandom(
+    options.seed ^ hashSeed(centeredWord || "")
+  );
+
+  const words = entries.map((entry) => entry.word);
+  const shuffledWords = centeredWord
+    ? [
+        centeredWord,
+        ...shuffle(
+          words.filter((w) => w !== centeredWord),
+          random
+        ),
+      ]
+    : shuffle(words, random);
+
+  // Sizes follow weights when they differ, otherwise stay random
+  const weights = new Map(entries.map((e) => [e.word, e.weight]));
+  const weightRange = getWeightRange(entries);
+  const isWeighted = weightRange.max > weightRange.min;
+
+  const getFontSize = (word: string, isCentered: boolean): number => {
+    if (isCentered) return Math.floor((maxFontSize + minFontSize) / 2 + 10);
+    if (isWeighted) {
+      return getWeightedFontSize(
+        weights.get(word) || weightRange.min,
+        weightRange,
+        minFontSize,
+        maxFontSize,
+        options.sizeScale
+      );
+    }
+    return Math.floor(random() * (maxFontSize - minFontSize + 1)) + minFontSize;
+  };
+
+  const getColor = createColorPicker(entries, options);
+  const groupOf = new Map(entries.map((e) => [e.word, e.group]));
+  const anchors = options.clusterGroups
+    ? getGroupAnchors(entries, containerWidth, containerHeight)
+    : null;
+
+  const candidates = shuffledWords.map((word) => {
+    const isCentered = centeredWord === word;
+    const fontSize = getFontSize(word, isCentered);
+    const fontWeight = fontWeightForSize(
+      options.fontWeights,
+      fontSize,
+      minFontSize,
+      maxFontSize
+    );
+    const color = getColor(word, fontSize, random());
+    const rotation = isCentered ? 0 : pickRotation(options.rotation, random);
+    const size = measure(word, fontSize, fontWeight);
+
+    return {
+      word,
+      fontSize,
+      fontWeight,
+      color,
+      rotation,
+      isCentered,
+      group: groupOf.get(word),
+      width: Math.ceil(size.width) + WORD_BOX_PADDING,
+      height: Math.ceil(size.height) + WORD_BOX_PADDING,
+    };
+  });
+
+  if (!centeredWord) {
+    candidates.sort((a, b) => b.width * b.height - a.width * a.height);
+  }
+
+  // Words already placed, indexed by position for fast collision checks,
+  // and the cells they cover for a quicker first check
+  const placedElements = new SpatialGrid<PlacedRect>(maxFontSize * 2);
+  const occupied = new OccupancyGrid(
+    containerWidth,
+    containerHeight,
+    OCCUPANCY_CELL_SIZE
+  );
+  const addPlaced = (rect: PlacedRect) => {
+    const bounds = getRotatedBounds(rect, spacing.padding);
+    placedElements.insert(bounds, rect);
+    occupied.fill(bounds, (x, y) => containsPoint(rect, x, y, spacing.padding));
+  };
+
+  const centerX = containerWidth / 2;
+  const centerY = containerHeight / 2;
+  const result: LayoutResult = { placed: [], failed: [] };
+  // Sizes of words that found no spot. A word at least as large at the same
+  // angle won't find one either, so it's skipped without a search.
+  const failedSizes: WordBox[] = [];
+
+  for (const candidate of candidates) {
+    const { width: tagWidth, height: tagHeight, rotation } = candidate;
+
+    if (candidate.isCentered) {
+      // The centered word is drawn enlarged, so it keeps extra room
+      addPlaced({
+        centerX,
+        centerY,
+        width: tagWidth * 1.5,
+        height: tagHeight * 1.5,
+        rotation,
+      });
+      const placement = { ...candidate, centerX, centerY };
+      result.placed.push(placement);
+      yield placement;
+      continue;
+    }
+
+    if (
+      failedSizes.some(
+        (failed) =>
+          failed.rotation === rotation &&
+          failed.width <= tagWidth &&
+          failed.height <= tagHeight
+      )
+    ) {
+      result.failed.push(candidate.word);
+      continue;
+    }
+
+    // Clustered words spiral out from their group's spot, the rest from
+    // the center
+    const anchor = anchors?.get(candidate.group || "");
+    const spot = findSpot(
+      candidate,
+      anchor || { x: centerX, y: centerY },
+      random() * Math.PI * 2,
+      options,
+      placedElements,
+      occupied
+    );
+
+    if (!spot) {
+      result.failed.push(candidate.word);
+      failedSizes.push(candidate);
+      continue;
+    }
+    addPlaced(spot);
+    const placement = { ...candidate, ...spot };
+    result.placed.push(placement);
+    yield placement;
+  }
+
+  return result;
+}
+
+// Walk a spiral out from the origin for the first spot where the word fits
+// inside the container and the shape without touching a placed word. Kept
+// out of the layout generator, whose variables live on the heap and make
+// this loop several times slower.
+function findSpot(
+  word: WordBox,
+  origin: { x: number; y: number },
+  startAngle: number,
+  options: LayoutOptions,
+  placedElements: SpatialGrid<PlacedRect>,
+  occupied: OccupancyGrid
+): PlacedRect | null {
+  const { width, height, spacing } = options;
+  const { margin, padding } = spacing;
+  // Rings closer than a quarter of the word's height only retest
+  // the same spots, and keep large clouds from reaching the edges
+  const spiralStep = Math.max(spacing.spiralStep, word.height / 4);
+  const growthPerRadian = spiralStep / (Math.PI * 2);
+  // Positions are spaced evenly along the spiral rather than by angle, so
+  // outer rings aren't searched more coarsely than inner ones
+  const arcStep = Math.max(2, word.height / 2);
+  // The word's box only changes position along the spiral, so its size
+  // is worked out once
+  const extents = getRotatedExtents(word);
+  // Past the farthest spot the word's center can take inside the margins,
+  // nothing fits any more
+  const maxRadius = Math.hypot(
+    Math.max(origin.x, width - origin.x) - margin - extents.halfWidth,
+    Math.max(origin.y, height - origin.y) - margin - extents.halfHeight
+  );
+  const padded = getRotatedExtents(word, padding);
+  const probes = getProbeOffsets(word, padding);
+  const testRect: PlacedRect = {
+    centerX: 0,
+    centerY: 0,
+    width: word.width,
+    height: word.height,
+    rotation: word.rotation,
+  };
+  const query: Bounds = { left: 0, top: 0, right: 0, bottom: 0 };
+  const overlapsTestRect = (placedRect: PlacedRect) =>
+    rectsOverlap(testRect, placedRect, padding);
+
+  let radius = spacing.startRadius;
+  let angle = startAngle;
+  let turned = 0;
+  // Each ring turns by one angle throughout, so a step only rotates the
+  // direction instead of calling cos and sin again
+  let ringLeft = 0;
+  let angleStep = 0;
+  let stepCos = 1;
+  let stepSin = 0;
+  let directionX = 1;
+  let directionY = 0;
+
+  for (
+    let attempt = 0;
+    attempt < MAX_ATTEMPTS && radius < maxRadius;
+    attempt++
+  ) {
+    if (ringLeft <= 0) {
+      // A new ring: its step for the current radius, and a fresh
+      // direction so rounding errors don't add up
+      angleStep = arcStep / Math.max(radius, arcStep);
+      stepCos = Math.cos(angleStep);
+      stepSin = Math.sin(angleStep);
+      directionX = Math.cos(angle);
+      directionY = Math.sin(angle);
+      ringLeft = Math.PI * 2;
+    }
+    const x = origin.x + radius * directionX;
+    const y = origin.y + radius * directionY;
+    const nextDirectionX = directionX * stepCos - directionY * stepSin;
+    directionY = directionX * stepSin + directionY * stepCos;
+    directionX = nextDirectionX;
+    angle += angleStep;
+    turned += angleStep;
+    ringLeft -= angleStep;
+    radius = spacing.startRadius + growthPerRadian * turned;
+
+    // Cheapest checks first: the container edges, then whether the spot
+    // is plainly taken, and only then the exact collision check
+    if (
+      x - extents.halfWidth < margin ||
+      x + extents.halfWidth > width - margin ||
+      y - extents.halfHeight < margin ||
+      y + extents.halfHeight > height - margin ||
+      occupied.isAnyCovered(x, y, probes)
+    ) {
+      continue;
+    }
+
+    testRect.centerX = x;
+    testRect.centerY = y;
+    query.left = x - padded.halfWidth;
+    query.right = x + padded.halfWidth;
+    query.top = y - padded.halfHeight;
+    query.bottom = y + padded.halfHeight;
+    if (
+      !placedElements.some(query, overlapsTestRect) &&
+      (!options.mask || fitsShape(options.mask, testRect))
+    ) {
+      return testRect;
+    }
+  }
+
+  return null;
+}
+
+// Points inside a word, relative to its center, for a quick look at the
+// occupancy grid. They stay far enough inside the word's padded box that the
+// center of any cell under them is inside it too, so a covered cell there
+// means the word overlaps another one.
+function getProbeOffsets(rect: WordBox, padding: number): number[] {
+  const reach = OCCUPANCY_CELL_SIZE * Math.SQRT1_2;
+  const halfWidth = rect.width / 2 + padding - reach;
+  const halfHeight = rect.height / 2 + padding - reach;
+  if (halfWidth < 0 || halfHeight < 0) return [];
+
+  const radians = (rect.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const columns = Math.floor(halfWidth / PROBE_SPACING);
+  const rows = Math.floor(halfHeight / PROBE_SPACING);
+  const offsets: number[] = [];
+  for (let row = -rows; row <= rows; row++) {
+    for (let col = -columns; col <= columns; col++) {
+      const u = col * PROBE_SPACING;
+      const v = row * PROBE_SPACING;
+      offsets.push(u * cos - v * sin, u * sin + v * cos);
+    }
+  }
+  return offsets;
+}
+
+// How far from the center group spots sit, as a share of the width and
+// height
+const ANCHOR_SPREAD = 0.28;
+
+// A spot for each group, evenly around the center starting at the top.
+// Words without a group get a spot of their own. A single group has
+// nothing to cluster apart from.
+function getGroupAnchors(
+  entries: WordEntry[],
+  width: number,
+  height: number
+): Map<string, { x: number; y: number }> | null {
+  const groups = Array.from(new Set(entries.map((e) => e.group || "")));
+  if (groups.length < 2) return null;
+
+  return new Map(
+    groups.map((group, i) => {
+      const angle = -Math.PI / 2 + (2 * Math.PI * i) / groups.length;
+      return [
+        group,
+        {
+          x: width / 2 + Math.cos(angle) * width * ANCHOR_SPREAD,
+          y: height / 2 + Math.sin(angle) * height * ANCHOR_SPREAD,
+        },
+      ];
+    })
+  );
+}
+
+// Smaller fonts and tighter spacing, for another try at fitting every word
+export function shrinkLayout(options: LayoutOptions): LayoutOptions {
+  const { spacing } = options;
+  return {
+    ...options,
+    minFontSize: Math.max(6, Math.floor(options.minFontSize * 0.85)),
+    maxFontSize: Math.max(6, Math.floor(options.maxFontSize * 0.85)),
+    spacing: {
+      padding: Math.floor(spacing.padding * 0.6),
+      margin: Math.floor(spacing.margin * 0.6),
+      startRadius: spacing.startRadius,
+      spiralStep: spacing.spiralStep,
+    },
+  };
+}
+
+// Bold text this size or larger counts as large text for WCAG, which needs
+// less contrast
+const LARGE_TEXT_SIZE = 19;
+
+// Picks each word's color by the color mode: at random from the palette,
+// along a gradient from small to large words, or one palette color per
+// group. Colors are nudged for contrast when there's a background to check.
+function createColorPicker(
+  entries: WordEntry[],
+  options: LayoutOptions
+): (word: string, fontSize: number, pick: number) => string {
+  const colors = options.colors.length > 0 ? options.colors : ["currentColor"];
+  const { minFontSize, maxFontSize } = options;
+
+  const stops = colors
+    .map(parseColor)
+    .filter((color): color is Rgb => color !== null);
+
+  const groups = new Map<string, number>();
+  const groupOf = new Map<string, string>();
+  for (const entry of entries) {
+    const group = entry.group || "";
+    if (!groups.has(group)) groups.set(group, groups.size);
+    groupOf.set(entry.word, group);
+  }
+
+  const background = options.contrastBackground
+    ? parseColor(options.contrastBackground)
+    : null;
+
+  return (word, fontSize, pick) => {
+    let color: string;
+    switch (options.colorMode) {
+      case "gradient": {
+        if (stops.length === 0) {
+          color = colors[0];
+          break;
+        }
+        const range = maxFontSize - minFontSize;
+        const t = range > 0 ? (fontSize - minFontSize) / range : 1;
+        color = toHex(gradientColor(stops, t));
+        break;
+      }
+      case "group": {
+        const index = groups.get(groupOf.get(word) || "") || 0;
+        color = colors[index % colors.length];
+        break;
+      }
+      default:
+        color = colors[Math.floor(pick * colors.length)];
+    }
+
+    const rgb = background && parseColor(color);
+    if (!background || !rgb) return color;
+    const minRatio = fontSize >= LARGE_TEXT_SIZE ? 3 : 4.5;
+    return toHex(ensureContrast(rgb, background, minRatio));
+  };
+}
+
+// Lay out every word at once
+export function computeLayout(
+  entries: WordEntry[],
+  options: LayoutOptions,
+  measure: MeasureFn
+): LayoutResult {
+  const layout = layoutWords(entries, options, measure);
+  let next = layout.next();
+  while (!next.done) next = layout.next();
+  return next.value;
+}
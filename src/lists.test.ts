@@ -0,0 +1,89 @@
+import { AUTO_SEPARATOR, formatList, readList, splitList } from "./lists";
+
+describe("splitList", () => {
+  it("splits at the separator and at line breaks", () => {
+    expect(splitList("a, b\nc", ",").map((entry) => entry.text)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("keeps separators in quotes and after a backslash", () => {
+    expect(
+      splitList('"Smith, John", a\\, b', ",").map((entry) => entry.text)
+    ).toEqual(["Smith, John", "a, b"]);
+  });
+
+  it("keeps a quote that isn't closed on its line as it is", () => {
+    expect(
+      splitList('"Smith, John, a, b\nc, d', ",").map((entry) => entry.text)
+    ).toEqual(['"Smith', "John", "a", "b", "c", "d"]);
+  });
+});
+
+describe("readList", () => {
+  it("reads weights", () => {
+    expect(readList("design:3, code (2), test", ",")).toEqual([
+      { word: "design", weight: 3 },
+      { word: "code", weight: 2 },
+      { word: "test", weight: 1 },
+    ]);
+  });
+
+  it("keeps weights written in quotes or escaped as part of the word", () => {
+    expect(readList('"Psalm 23:4", 12\\:30, "Windows (95)"', ",")).toEqual([
+      { word: "Psalm 23:4", weight: 1 },
+      { word: "12:30", weight: 1 },
+      { word: "Windows (95)", weight: 1 },
+    ]);
+  });
+
+  it("reads a weight after a quoted word", () => {
+    expect(readList('"Smith, John":3, "Psalm 23:4" (2)', ",")).toEqual([
+      { word: "Smith, John", weight: 3 },
+      { word: "Psalm 23:4", weight: 2 },
+    ]);
+  });
+});
+
+describe("formatList", () => {
+  const entries = [
+    { word: "Psalm 23:4", weight: 1 },
+    { word: "Windows (95)", weight: 2 },
+    { word: "Smith, John", weight: 1 },
+    { word: 'say "hi"', weight: 1 },
+    { word: "# 1", weight: 1 },
+    { word: "design", weight: 3 },
+  ];
+
+  it("writes words that read back the same way", () => {
+    for (const separator of [",", ";", "\n"]) {
+      expect(readList(formatList(entries, separator), separator)).toEqual(
+        entries
+      );
+    }
+  });
+
+  it("writes groups under their headings", () => {
+    const grouped = [
+      { word: "loose", weight: 1 },
+      { word: "Smith, John", weight: 2, group: "People" },
+      { word: "Ada", weight: 1, group: "People" },
+      { word: "12:30", weight: 1, group: "Times" },
+    ];
+    expect(formatList(grouped, ",")).toBe(
+      'loose\n# People\n"Smith, John":2, Ada\n# Times\n"12:30"'
+    );
+    for (const separator of [",", ";", "\n", AUTO_SEPARATOR]) {
+      expect(readList(formatList(grouped, separator), separator)).toEqual(
+        grouped
+      );
+    }
+  });
+
+  it("only quotes words that need it", () => {
+    expect(formatList(entries.slice(5), ",")).toBe("design:3");
+    expect(formatList(entries.slice(0, 1), "\n")).toBe('"Psalm 23:4"');
+  });
+});
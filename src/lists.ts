@@ -0,0 +1,228 @@
+import { WordEntry, parseWeightedWord } from "./words";
+
+// Separator setting that picks the separator from each list's own text
+export const AUTO_SEPARATOR = "auto";
+
+// Separators auto-detection chooses between, besides line breaks and spaces
+const DETECTED_SEPARATORS = [",", ";", "|", "\t"];
+
+// Lines starting with // are left out of lists
+const COMMENT_LINE = /^\s*\/\//;
+
+const SEPARATOR_NOUNS: Record<string, string> = {
+  ",": "comma",
+  ".": "period",
+  " ": "space",
+  ";": "semicolon",
+  "|": "pipe",
+  "\t": "tab",
+};
+
+// How to write a list with a separator, for hints and messages
+export function describeListFormat(separator: string): string {
+  if (separator === AUTO_SEPARATOR) {
+    return "Enter words one per line, or separated by commas, semicolons or pipes";
+  }
+  if (separator === "\n") return "Enter one word per line";
+  const noun = SEPARATOR_NOUNS[separator || ","] || `"${separator}"`;
+  return `Enter words separated by ${noun}`;
+}
+
+// A heading such as "# Characters" starts a group of words
+const GROUP_HEADING = /^\s*#{1,6}\s+(.+?)(?:\s+#+)?\s*$/;
+
+// Part of a list under one heading, or before the first heading
+export interface ListSection {
+  group?: string;
+  text: string;
+}
+
+// Split a list at its headings. Words before the first heading have no
+// group. Hashtags such as #idea aren't headings, since those need a space.
+export function splitSections(text: string): ListSection[] {
+  const sections: ListSection[] = [{ text: "" }];
+  const lines: string[] = [];
+  for (const line of text.split("\n")) {
+    const heading = line.match(GROUP_HEADING);
+    if (heading) {
+      sections[sections.length - 1].text = lines.splice(0).join("\n");
+      sections.push({ group: heading[1], text: "" });
+    } else {
+      lines.push(line);
+    }
+  }
+  sections[sections.length - 1].text = lines.join("\n");
+  return sections.filter((section) => section.group || section.text.trim());
+}
+
+// An entry as written, its weight still attached. The text before
+// literalEnd was quoted or escaped, so no weight is read from it.
+export interface RawEntry {
+  text: string;
+  literalEnd: number;
+}
+
+// Whether a quote opened just before `from` is closed on the same line. One
+// that isn't is kept as an ordinary character, so a stray quote can't swallow
+// the rest of the list.
+function hasClosingQuote(text: string, from: number): boolean {
+  for (let i = from; i < text.length && text[i] !== "\n"; i++) {
+    if (text[i] === "\\") i++;
+    else if (text[i] === '"') return true;
+  }
+  return false;
+}
+
+// Split a block's list into raw entries. Line breaks always end an entry,
+// besides the separator. An entry can be put in double quotes to keep
+// separators in it, as in "Smith, John", and a backslash keeps the next
+// character as it is. Either way the text stays part of the word, so
+// "Psalm 23:4" and 12\:30 aren't read as weights.
+export function splitList(text: string, separator: string): RawEntry[] {
+  const entries: RawEntry[] = [];
+  let current = "";
+  let literalEnd = 0;
+  let quoted = false;
+  let lineStart = true;
+
+  const flush = () => {
+    const entry = current.trim();
+    if (entry.length > 0) {
+      const leading = current.search(/\S/);
+      entries.push({
+        text: entry,
+        literalEnd: Math.max(0, literalEnd - leading),
+      });
+    }
+    current = "";
+    literalEnd = 0;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    if (lineStart && !quoted) {
+      lineStart = false;
+      const end = text.indexOf("\n", i);
+      const lineEnd = end < 0 ? text.length : end;
+      if (COMMENT_LINE.test(text.slice(i, lineEnd))) {
+        i = lineEnd;
+        lineStart = true;
+        continue;
+      }
+    }
+
+    const char = text[i];
+    if (char === "\\" && i + 1 < text.length) {
+      current += text[++i];
+      literalEnd = current.length;
+    } else if (quoted) {
+      if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+        literalEnd = current.length;
+      }
+    } else if (
+      char === '"' &&
+      current.trim() === "" &&
+      hasClosingQuote(text, i + 1)
+    ) {
+      // Quotes only open at the start of an entry, so 12" stays as it is
+      quoted = true;
+    } else if (char === "\n") {
+      flush();
+      lineStart = true;
+    } else if (text.startsWith(separator, i)) {
+      flush();
+      i += separator.length - 1;
+    } else {
+      current += char;
+    }
+  }
+  flush();
+
+  return entries;
+}
+
+// The separator a list most likely uses: the most common of comma,
+// semicolon, pipe and tab, unless there are fewer of them than lines, which
+// makes it a list with one entry per line. A single line without any of
+// them is split at spaces.
+export function detectSeparator(text: string): string {
+  const lines = text
+    .split("\n")
+    .filter((line) => line.trim() !== "" && !COMMENT_LINE.test(line));
+  // Escaped and quoted separators don't count
+  const bare = lines
+    .map((line) => line.replace(/\\./g, "").replace(/"[^"]*"/g, ""))
+    .join("\n");
+
+  let best = "\n";
+  let bestCount = 0;
+  for (const separator of DETECTED_SEPARATORS) {
+    const count = bare.split(separator).length - 1;
+    if (count > bestCount) {
+      best = separator;
+      bestCount = count;
+    }
+  }
+
+  if (lines.length > 1) return bestCount >= lines.length ? best : "\n";
+  return bestCount > 0 ? best : " ";
+}
+
+// The words of a list with their weights, and their groups when the list
+// has headings. The separator can be AUTO_SEPARATOR, and is then detected
+// for each group on its own, so groups can be written differently.
+export function readList(text: string, separator: string): WordEntry[] {
+  const entries: WordEntry[] = [];
+  for (const section of splitSections(text)) {
+    const used =
+      separator === AUTO_SEPARATOR
+        ? detectSeparator(section.text)
+        : separator || ",";
+    for (const raw of splitList(section.text, used)) {
+      const entry = parseWeightedWord(raw.text, raw.literalEnd);
+      entries.push(section.group ? { ...entry, group: section.group } : entry);
+    }
+  }
+  return entries;
+}
+
+// Write entries out as a list that readList reads back the same way, one
+// per line unless there's a separator to use. Words that would otherwise
+// split or lose part of themselves as a weight, like 12:30, are quoted.
+// Grouped words go under a heading for their group, after the ungrouped ones.
+export function formatList(entries: WordEntry[], separator: string): string {
+  const groups = new Map<string, WordEntry[]>([["", []]]);
+  for (const entry of entries) {
+    const group = groups.get(entry.group ?? "");
+    if (group) group.push(entry);
+    else groups.set(entry.group ?? "", [entry]);
+  }
+  const sections: string[] = [];
+  groups.forEach((group, name) => {
+    if (name) sections.push(`# ${name}`);
+    if (group.length > 0) sections.push(formatWords(group, separator));
+  });
+  return sections.join("\n");
+}
+
+function formatWords(entries: WordEntry[], separator: string): string {
+  const lineByLine =
+    separator === AUTO_SEPARATOR || separator === "\n" || !separator;
+  const items = entries.map((entry) => {
+    const needsQuotes =
+      entry.word.startsWith('"') ||
+      entry.word.startsWith("//") ||
+      GROUP_HEADING.test(entry.word) ||
+      entry.word.includes("\\") ||
+      parseWeightedWord(entry.word).word !== entry.word ||
+      (!lineByLine && entry.word.includes(separator));
+    const word = needsQuotes
+      ? `"${entry.word.replace(/[\\"]/g, "\\$&")}"`
+      : entry.word;
+    return entry.weight !== 1 ? `${word}:${entry.weight}` : word;
+  });
+  if (lineByLine) return items.join("\n");
+  return items.join(separator === " " ? " " : `${separator} `);
+}
@@ -0,0 +1,38 @@
+import { parseCloudBlock } from "./options";
+
+describe("parseCloudBlock", () => {
+  it.each([
+    "seed:4, soil:2, water:1",
+    "font:5, color:3, layout:2",
+    "legend:5\nmyth:3\nhero:2",
+    "height:3, depth:2",
+  ])("keeps the weighted list %j as words", (source) => {
+    expect(parseCloudBlock(source)).toEqual({
+      options: {},
+      body: source,
+      errors: [],
+    });
+  });
+
+  it("reads options closed by ---", () => {
+    expect(parseCloudBlock("height: 300\n---\nseed:4, soil:2")).toEqual({
+      options: { height: 300 },
+      body: "seed:4, soil:2",
+      errors: [],
+    });
+  });
+
+  it("reads a tag cloud without the closing ---", () => {
+    expect(parseCloudBlock("source: tags\nlimit: 40")).toEqual({
+      options: { source: { type: "tags" }, limit: 40 },
+      body: "",
+      errors: [],
+    });
+  });
+
+  it("reports a misspelled option in a tag cloud", () => {
+    const { errors } = parseCloudBlock("source: tags\nlimt: 40");
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Unknown option "limt"/);
+  });
+});
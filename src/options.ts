@@ -0,0 +1,622 @@
+import { ColorMode } from "./colors";
+import { AUTO_SEPARATOR } from "./lists";
+import { hashSeed } from "./random";
+import { parseAngleRange, parseAngles } from "./rotation";
+import { SHAPE_NAMES, ShapeName } from "./shapes";
+import {
+  Casing,
+  ClickAction,
+  OverflowStrategy,
+  RendererMode,
+  SpacingPreset,
+  WordCloudSettings,
+} from "./settings";
+import { parseFontWeights, parseLetterSpacing } from "./typography";
+import { SizeScale } from "./words";
+
+// Where a cloud gets its words from
+export type CloudSource =
+  | { type: "list" }
+  | { type: "tags" }
+  | { type: "this" }
+  | { type: "note"; path: string }
+  | { type: "folder"; path: string }
+  | { type: "file"; path: string };
+
+// Per-block overrides read from the options header of a wordcloud block
+export interface CloudOptions extends Partial<WordCloudSettings> {
+  height?: number;
+  seed?: number;
+  source?: CloudSource;
+  include?: string[];
+  exclude?: string[];
+  minCount?: number;
+  limit?: number;
+  stopwords?: string[];
+  // Vault image whose opaque pixels the cloud fills, instead of `shape`
+  shapeImage?: string;
+  // Saved or preset palette to use instead of the default one
+  paletteName?: string;
+  // CSV columns for `source: file`, by header name or number
+  column?: string;
+  weightColumn?: string;
+}
+
+export interface ParsedBlock {
+  options: CloudOptions;
+  body: string;
+  errors: string[];
+}
+
+export type CloudConfig = WordCloudSettings & CloudOptions;
+
+export const CASINGS: Casing[] = [
+  "as-is",
+  "uppercase",
+  "lowercase",
+  "title-case",
+];
+export const SPACINGS: SpacingPreset[] = [
+  "compact",
+  "normal",
+  "comfortable",
+  "loose",
+];
+const SIZE_SCALES: SizeScale[] = ["linear", "log", "sqrt"];
+export const COLOR_MODES: ColorMode[] = [
+  "random",
+  "gradient",
+  "group",
+  "theme",
+];
+const RENDERERS: RendererMode[] = ["auto", "html", "svg"];
+const OVERFLOWS: OverflowStrategy[] = ["shrink", "grow", "badge"];
+const CLICK_ACTIONS: ClickAction[] = [
+  "recenter",
+  "open",
+  "open-or-create",
+  "search",
+];
+
+const SEPARATOR_NAMES: Record<string, string> = {
+  comma: ",",
+  period: ".",
+  space: " ",
+  semicolon: ";",
+  pipe: "|",
+  tab: "\t",
+  newline: "\n",
+  auto: AUTO_SEPARATOR,
+};
+
+const HEADER_LINE = /^[a-z][\w-]*\s*:/i;
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function unquote(value: string): string {
+  const match = value.match(/^(["'])(.*)\1$/);
+  return match ? match[2] : value;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function parseToggle(value: string): boolean | null {
+  const text = value.toLowerCase();
+  if (["on", "true", "yes"].includes(text)) return true;
+  if (["off", "false", "no"].includes(text)) return false;
+  return null;
+}
+
+function parsePositiveInt(value: string): number {
+  return /^\d+$/.test(value) ? parseInt(value) : NaN;
+}
+
+// Width to height ratio written as 16:9 or 16/9
+export function parseAspectRatio(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)$/);
+  const ratio = match ? parseFloat(match[1]) / parseFloat(match[2]) : NaN;
+  return ratio > 0 && isFinite(ratio) ? ratio : null;
+}
+
+function invalidChoice(value: string, key: string, allowed: string[]): string {
+  return `"${value}" is not a valid ${key}. Use one of: ${allowed.join(", ")}`;
+}
+
+// Each handler applies its value to the options and returns an error message
+// when the value can't be used
+type OptionHandler = (value: string, options: CloudOptions) => string | void;
+
+const OPTION_HANDLERS: Record<string, OptionHandler> = {
+  separator: (value, options) => {
+    const named = SEPARATOR_NAMES[value.toLowerCase()];
+    const separator = named !== undefined ? named : unquote(value);
+    if (separator.length === 0) {
+      return 'separator is empty. Use a character or a name such as "comma"';
+    }
+    options.separator = separator;
+  },
+  casing: (value, options) => {
+    const casing = value.toLowerCase() as Casing;
+    if (!CASINGS.includes(casing)) {
+      return invalidChoice(value, "casing", CASINGS);
+    }
+    options.casing = casing;
+  },
+  "font-size": (value, options) => {
+    if (value.toLowerCase() === "auto") {
+      options.autoFontSize = true;
+      return;
+    }
+    const match = value.match(/^(\d+)\s*(?:-|to)\s*(\d+)(?:\s*px)?$/i);
+    const min = match ? parseInt(match[1]) : NaN;
+    const max = match ? parseInt(match[2]) : NaN;
+    if (!(min > 0) || !(max >= min)) {
+      return `"${value}" is not a valid font-size. Use a range such as 12-48, or auto`;
+    }
+    options.autoFontSize = false;
+    options.minFontSize = min;
+    options.maxFontSize = max;
+  },
+  font: (value, options) => {
+    const family = unquote(value).trim();
+    if (!family) return "font is empty. Use a font name such as Georgia";
+    options.fontFamily = family.toLowerCase() === "default" ? "" : family;
+  },
+  "font-weight": (value, options) => {
+    if (!parseFontWeights(value)) {
+      return `"${value}" is not a valid font-weight. Use normal, bold or numbers from 1 to 1000, such as 300, 700`;
+    }
+    options.fontWeight = value;
+  },
+  italic: (value, options) => {
+    const italic = parseToggle(value);
+    if (italic === null) {
+      return `"${value}" is not a valid italic setting. Use on or off`;
+    }
+    options.italic = italic;
+  },
+  "letter-spacing": (value, options) => {
+    const spacing = parseLetterSpacing(value);
+    if (spacing === null) {
+      return `"${value}" is not a valid letter-spacing. Use em such as 0.05em`;
+    }
+    options.letterSpacing = spacing;
+  },
+  spacing: (value, options) => {
+    if (value.toLowerCase() === "auto") {
+      options.autoSpacing = true;
+      return;
+    }
+    const spacing = value.toLowerCase() as SpacingPreset;
+    if (!SPACINGS.includes(spacing)) {
+      return invalidChoice(value, "spacing", [...SPACINGS, "auto"]);
+    }
+    options.autoSpacing = false;
+    options.spacing = spacing;
+  },
+  palette: (value, options) => {
+    const colors = parseList(value);
+    if (colors.length > 0 && colors.every((c) => HEX_COLOR.test(c))) {
+      options.colorPalette = colors;
+      return;
+    }
+    if (colors.some((c) => HEX_COLOR.test(c))) {
+      return `palette needs hex colors such as #0066cc, got "${value}"`;
+    }
+    // Anything else names a palette from the library
+    const name = unquote(value).trim();
+    if (!name) return "palette is empty. Use hex colors or a palette name";
+    options.paletteName = name;
+  },
+  "color-mode": (value, options) => {
+    const mode = value.toLowerCase() as ColorMode;
+    if (!COLOR_MODES.includes(mode)) {
+      return invalidChoice(value, "color-mode", COLOR_MODES);
+    }
+    options.colorMode = mode;
+  },
+  contrast: (value, options) => {
+    const enabled = parseToggle(value);
+    if (enabled === null) {
+      return `"${value}" is not a valid contrast setting. Use on or off`;
+    }
+    options.contrastCheck = enabled;
+  },
+  cluster: (value, options) => {
+    const enabled = parseToggle(value);
+    if (enabled === null) {
+      return `"${value}" is not a valid cluster setting. Use on or off`;
+    }
+    options.clusterGroups = enabled;
+  },
+  legend: (value, options) => {
+    const enabled = parseToggle(value);
+    if (enabled === null) {
+      return `"${value}" is not a valid legend setting. Use on or off`;
+    }
+    options.showLegend = enabled;
+  },
+  height: (value, options) => {
+    const mode = value.toLowerCase();
+    if (mode === "auto" || mode === "fill") {
+      options.heightMode = mode;
+      return;
+    }
+    if (parseAspectRatio(value)) {
+      options.heightMode = "aspect";
+      options.aspectRatio = value.trim();
+      return;
+    }
+    const match = value.match(/^(\d+)(?:\s*px)?$/i);
+    const height = match ? parseInt(match[1]) : NaN;
+    if (!(height > 0)) {
+      return `"${value}" is not a valid height. Use pixels such as 400, a ratio such as 16:9, fill or auto`;
+    }
+    options.height = height;
+  },
+  seed: (value, options) => {
+    const seed = unquote(value);
+    if (seed.length === 0) return "seed is empty";
+    options.seed = /^\d+$/.test(seed) ? parseInt(seed) >>> 0 : hashSeed(seed);
+  },
+  source: (value, options) => {
+    const match = value.match(/^(\S+)\s*(.*)$/);
+    const type = match ? match[1].toLowerCase() : "";
+    const target = match ? match[2].trim() : "";
+
+    switch (type) {
+      case "list":
+      case "tags":
+      case "this":
+        options.source = { type };
+        return;
+      case "note": {
+        const path = target.replace(/^\[\[(.*?)(?:\|.*)?\]\]$/, "$1").trim();
+        if (!path) {
+          return "source: note needs a note, such as note [[Project X]]";
+        }
+        options.source = { type, path };
+        return;
+      }
+      case "folder": {
+        if (!target) {
+          return "source: folder needs a folder, such as folder Research/";
+        }
+        const path = unquote(target).replace(/\/+$/, "") || "/";
+        options.source = { type, path };
+        return;
+      }
+      case "file": {
+        const path = unquote(target)
+          .replace(/^\[\[(.*?)(?:\|.*)?\]\]$/, "$1")
+          .trim();
+        if (!path) {
+          return "source: file needs a file, such as file lists/keywords.csv";
+        }
+        options.source = { type, path };
+        return;
+      }
+      default:
+        return invalidChoice(value, "source", [
+          "list",
+          "tags",
+          "this",
+          "note [[Note]]",
+          "folder Path/",
+          "file path.csv",
+        ]);
+    }
+  },
+  column: (value, options) => {
+    const column = unquote(value).trim();
+    if (!column) return "column is empty. Use a header name or a number";
+    options.column = column;
+  },
+  "weight-column": (value, options) => {
+    const column = unquote(value).trim();
+    if (!column) return "weight-column is empty. Use a header name or a number";
+    options.weightColumn = column;
+  },
+  include: (value, options) => {
+    options.include = parseList(value);
+  },
+  exclude: (value, options) => {
+    options.exclude = parseList(value);
+  },
+  click: (value, options) => {
+    const action = value.toLowerCase() as ClickAction;
+    if (!CLICK_ACTIONS.includes(action)) {
+      return invalidChoice(value, "click action", CLICK_ACTIONS);
+    }
+    options.clickAction = action;
+  },
+  "mod-click": (value, options) => {
+    const action = value.toLowerCase() as ClickAction;
+    if (!CLICK_ACTIONS.includes(action)) {
+      return invalidChoice(value, "mod-click action", CLICK_ACTIONS);
+    }
+    options.modClickAction = action;
+  },
+  stopwords: (value, options) => {
+    options.stopwords = parseList(value);
+  },
+  "min-count": (value, options) => {
+    const minCount = parsePositiveInt(value);
+    if (!(minCount > 0)) {
+      return `"${value}" is not a valid min-count. Use a whole number such as 2`;
+    }
+    options.minCount = minCount;
+  },
+  limit: (value, options) => {
+    const limit = parsePositiveInt(value);
+    if (!(limit > 0)) {
+      return `"${value}" is not a valid limit. Use a whole number such as 50`;
+    }
+    options.limit = limit;
+  },
+  rotation: (value, options) => {
+    const match = value.match(/^(\S+)\s*(.*)$/);
+    const mode = match ? match[1].toLowerCase() : "";
+    const args = match ? match[2].trim() : "";
+
+    switch (mode) {
+      case "horizontal":
+      case "mixed":
+        options.rotationMode = mode;
+        return;
+      case "angles": {
+        const angles = parseAngles(args);
+        if (!angles) {
+          return `"${args}" are not valid angles. Use degrees such as angles -45, 0, 45`;
+        }
+        options.rotationMode = mode;
+        options.rotationAngles = angles;
+        return;
+      }
+      case "range": {
+        const range = parseAngleRange(args);
+        if (!range) {
+          return `"${args}" is not a valid angle range. Use degrees such as range -60 to 60`;
+        }
+        options.rotationMode = mode;
+        options.rotationRange = range;
+        return;
+      }
+      default:
+        return invalidChoice(value, "rotation", [
+          "horizontal",
+          "mixed",
+          "angles -45, 0, 45",
+          "range -60 to 60",
+        ]);
+    }
+  },
+  shape: (value, options) => {
+    const match = value.match(/^image\s+(.+)$/i);
+    if (match) {
+      const path = unquote(match[1].trim())
+        .replace(/^!?\[\[(.*?)(?:\|.*)?\]\]$/, "$1")
+        .trim();
+      if (!path)
+        return "shape: image needs an image, such as image [[mask.png]]";
+      options.shapeImage = path;
+      return;
+    }
+    const shape = value.toLowerCase() as ShapeName;
+    if (!SHAPE_NAMES.includes(shape)) {
+      return invalidChoice(value, "shape", [...SHAPE_NAMES, "image [[file]]"]);
+    }
+    options.shape = shape;
+  },
+  "size-scale": (value, options) => {
+    const scale = value.toLowerCase() as SizeScale;
+    if (!SIZE_SCALES.includes(scale)) {
+      return invalidChoice(value, "size-scale", SIZE_SCALES);
+    }
+    options.sizeScale = scale;
+  },
+  renderer: (value, options) => {
+    const renderer = value.toLowerCase() as RendererMode;
+    if (!RENDERERS.includes(renderer)) {
+      return invalidChoice(value, "renderer", RENDERERS);
+    }
+    options.renderer = renderer;
+  },
+  overflow: (value, options) => {
+    const overflow = value.toLowerCase() as OverflowStrategy;
+    if (!OVERFLOWS.includes(overflow)) {
+      return invalidChoice(value, "overflow", OVERFLOWS);
+    }
+    options.overflow = overflow;
+  },
+};
+
+function isHeaderLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === "" || trimmed.startsWith("#") || HEADER_LINE.test(trimmed);
+}
+
+// A `source:` line naming somewhere other than the block's own list
+const OUTSIDE_SOURCE_LINE = /^source\s*:\s*(?!list\b)[a-z]/i;
+
+// Only a block that takes its words from elsewhere, such as a tag cloud, can
+// do without the closing `---`: it has no words of its own. Any other block
+// could be a weighted list like `seed:4, soil:2`, so it needs the `---`.
+function isOptionsOnly(lines: string[]): boolean {
+  return lines.some((line) => OUTSIDE_SOURCE_LINE.test(line.trim()));
+}
+
+// Find the lines of an options header: either `key: value` lines closed by
+// `---`, or the same wrapped YAML-style between two `---` lines.
+function findHeader(lines: string[]): { start: number; end: number } | null {
+  const start = lines.length > 0 && lines[0].trim() === "---" ? 1 : 0;
+  const end = lines.findIndex((line, i) => i >= start && line.trim() === "---");
+  if (end < 0) {
+    return isOptionsOnly(lines.slice(start))
+      ? { start, end: lines.length }
+      : null;
+  }
+  return lines.slice(start, end).every(isHeaderLine) ? { start, end } : null;
+}
+
+export function parseCloudBlock(source: string): ParsedBlock {
+  const lines = source.split("\n");
+  const header = findHeader(lines);
+  const options: CloudOptions = {};
+  const errors: string[] = [];
+
+  if (!header) return { options, body: source, errors };
+
+  lines.slice(header.start, header.end).forEach((line) => {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) return;
+    if (!HEADER_LINE.test(trimmed)) {
+      errors.push(
+        `"${trimmed}" is not an option. End the options with --- before the words`
+      );
+      return;
+    }
+
+    const colon = trimmed.indexOf(":");
+    const key = trimmed.slice(0, colon).trim().toLowerCase();
+    const value = trimmed.slice(colon + 1).trim();
+    const handler = OPTION_HANDLERS[key];
+    if (!handler) {
+      errors.push(
+        `Unknown option "${key}". Available options: ${Object.keys(
+          OPTION_HANDLERS
+        ).join(", ")}`
+      );
+      return;
+    }
+    const error = handler(value, options);
+    if (error) errors.push(error);
+  });
+
+  return {
+    options,
+    body: lines.slice(header.end + 1).join("\n"),
+    errors,
+  };
+}
+
+// Block options take precedence over the global settings
+export function resolveCloudConfig(
+  settings: WordCloudSettings,
+  options: CloudOptions
+): CloudConfig {
+  return Object.assign({}, settings, options);
+}
+
+// Set one option in a block's source, adding an options header if needed
+export function setBlockOption(
+  source: string,
+  key: string,
+  value: string
+): string {
+  const lines = source.split("\n");
+  const header = findHeader(lines);
+  const line = `${key}: ${value}`;
+
+  if (!header) return [line, "---", ...lines].join("\n");
+
+  const existing = lines.findIndex(
+    (l, i) =>
+      i >= header.start &&
+      i < header.end &&
+      l.trim().toLowerCase().startsWith(`${key}:`)
+  );
+  if (existing >= 0) {
+    lines[existing] = line;
+  } else {
+    lines.splice(header.end, 0, line);
+  }
+  return lines.join("\n");
+}
+
+// A block's current value for one option, as written
+export function getBlockOption(source: string, key: string): string | null {
+  const lines = source.split("\n");
+  const header = findHeader(lines);
+  if (!header) return null;
+
+  for (const line of lines.slice(header.start, header.end)) {
+    const trimmed = line.trim();
+    const colon = trimmed.indexOf(":");
+    if (colon < 0) continue;
+    if (trimmed.slice(0, colon).trim().toLowerCase() === key) {
+      return trimmed.slice(colon + 1).trim();
+    }
+  }
+  return null;
+}
+
+// Remove one option from a block's source, and the options header with it
+// once it's empty
+export function removeBlockOption(source: string, key: string): string {
+  const lines = source.split("\n");
+  const header = findHeader(lines);
+  if (!header) return source;
+
+  const kept = lines.filter(
+    (l, i) =>
+      i < header.start ||
+      i >= header.end ||
+      !l.trim().toLowerCase().startsWith(`${key}:`)
+  );
+  const removed = lines.length - kept.length;
+  if (removed === 0) return source;
+
+  const end = header.end - removed;
+  const isEmpty = kept
+    .slice(header.start, end)
+    .every((l) => l.trim() === "" || l.trim().startsWith("#"));
+  // The header and its closing --- go together, keeping the words
+  return isEmpty && end < kept.length
+    ? kept.slice(end + 1).join("\n")
+    : kept.join("\n");
+}
+
+const FENCE_OPEN = /^\s*(`{3,}|~{3,})\s*wordcloud\s*$/;
+
+// Where a wordcloud code block sits in a note: the lines of its opening and
+// closing fences, and the source between them. Blocks left open run to the
+// end of the note.
+export interface CloudSection {
+  lineStart: number;
+  lineEnd: number;
+  source: string;
+}
+
+export function findCloudSections(markdown: string): CloudSection[] {
+  const lines = markdown.split("\n");
+  const sections: CloudSection[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(FENCE_OPEN);
+    if (!open) continue;
+    const fence = open[1];
+    const close = new RegExp(`^\\s*${fence[0]}{${fence.length},}\\s*$`);
+    let end = i + 1;
+    while (end < lines.length && !close.test(lines[end])) end++;
+    sections.push({
+      lineStart: i,
+      lineEnd: end,
+      source: lines.slice(i + 1, end).join("\n"),
+    });
+    i = end;
+  }
+
+  return sections;
+}
+
+// Sources of the wordcloud code blocks in a note's markdown
+export function findCloudBlocks(markdown: string): string[] {
+  return findCloudSections(markdown).map((section) => section.source);
+}
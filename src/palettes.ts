@@ -0,0 +1,104 @@
+export interface NamedPalette {
+  name: string;
+  colors: string[];
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Curated palettes that ship with the plugin. They can be used as they are
+// or duplicated into the library and changed there.
+export const PRESET_PALETTES: NamedPalette[] = [
+  {
+    name: "Ocean",
+    colors: ["#03045e", "#0077b6", "#00b4d8", "#48cae4", "#90e0ef"],
+  },
+  {
+    name: "Sunset",
+    colors: ["#ff7b00", "#ff5400", "#e63946", "#9d0208", "#6a040f"],
+  },
+  {
+    name: "Forest",
+    colors: ["#1b4332", "#2d6a4f", "#40916c", "#52b788", "#74c69d"],
+  },
+  {
+    name: "Pastel",
+    colors: ["#ffadad", "#ffd6a5", "#caffbf", "#9bf6ff", "#bdb2ff"],
+  },
+  {
+    name: "Monochrome",
+    colors: ["#111111", "#333333", "#555555", "#777777", "#999999"],
+  },
+  // Okabe–Ito, distinguishable with the common kinds of color blindness
+  {
+    name: "Colorblind safe",
+    colors: [
+      "#e69f00",
+      "#56b4e9",
+      "#009e73",
+      "#f0e442",
+      "#0072b2",
+      "#d55e00",
+      "#cc79a7",
+    ],
+  },
+];
+
+// Saved palettes first, so a saved palette can take over a preset's name.
+// Names match without regard to case.
+export function findPalette(
+  saved: NamedPalette[],
+  name: string
+): NamedPalette | null {
+  const key = name.trim().toLowerCase();
+  return (
+    [...saved, ...PRESET_PALETTES].find(
+      (palette) => palette.name.toLowerCase() === key
+    ) || null
+  );
+}
+
+// A name that isn't used yet, adding a number to the wanted one if needed
+export function uniquePaletteName(saved: NamedPalette[], name: string): string {
+  const taken = new Set(saved.map((palette) => palette.name.toLowerCase()));
+  const base = name.trim() || "Palette";
+  if (!taken.has(base.toLowerCase())) return base;
+  let n = 2;
+  while (taken.has(`${base} ${n}`.toLowerCase())) n++;
+  return `${base} ${n}`;
+}
+
+export function exportPalettes(palettes: NamedPalette[]): string {
+  return JSON.stringify(
+    palettes.length === 1 ? palettes[0] : palettes,
+    null,
+    2
+  );
+}
+
+// Palettes from exported JSON: one palette or a list of them
+export function importPalettes(json: string): NamedPalette[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error("This isn't valid JSON");
+  }
+
+  const items = Array.isArray(data) ? data : [data];
+  if (items.length === 0) throw new Error("There are no palettes to import");
+
+  return items.map((item, i) => {
+    const { name, colors } = (item || {}) as Partial<NamedPalette>;
+    if (typeof name !== "string" || name.trim() === "") {
+      throw new Error(`Palette ${i + 1} has no name`);
+    }
+    if (
+      !Array.isArray(colors) ||
+      colors.length === 0 ||
+      !colors.every((c) => typeof c === "string" && HEX_COLOR.test(c))
+    ) {
+      throw new Error(`Palette "${name}" needs a list of hex colors`);
+    }
+    return { name: name.trim(), colors: colors.map((c) => c.toLowerCase()) };
+  });
+}
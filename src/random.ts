@@ -0,0 +1,38 @@
+export type RandomFn = () => number;
+
+// Small, fast seeded PRNG (mulberry32) so a seed always gives the same cloud
+export function createSeededRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Turn any seed text into a 32-bit number (FNV-1a)
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// A fresh seed for when the user asks for a different layout
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Fisher–Yates shuffle, so the order only depends on the random source
+export function shuffle<T>(items: T[], random: RandomFn): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,523 @@
+import { setIcon } from "obsidian";
+import { MeasureFn, Placement } from "./layout";
+import {
+  Typography,
+  countCharacters,
+  estimateTextWidth,
+  fontShorthand,
+} from "./typography";
+
+export type SelectWordFn = (
+  word: string,
+  evt: MouseEvent | TouchEvent | KeyboardEvent
+) => void;
+
+// How a redrawn word reaches its new spot: gliding from where it was in the
+// previous layout, or fading in when it wasn't there
+export interface WordMotion {
+  from?: Placement;
+}
+
+// Drawing function for one placed word, whichever renderer is in use
+export type DrawWordFn = (
+  placement: Placement,
+  motion?: WordMotion
+) => HTMLElement | SVGElement;
+
+// Matches a drawn word in both the HTML and the SVG renderer
+export const WORD_SELECTOR = ".word-cloud-word, .word-cloud-svg-word";
+
+// The centered word is drawn enlarged
+const CENTERED_SCALE = 1.2;
+const MOVE_MS = 500;
+const FADE_MS = 300;
+
+let cloudLabelCount = 0;
+
+// Words are list items. Only the centered word is in the tab order, and
+// arrow keys move focus between words from there.
+function setWordRole(el: HTMLElement | SVGElement, isCentered: boolean) {
+  el.setAttribute("role", "listitem");
+  el.tabIndex = isCentered ? 0 : -1;
+  if (isCentered) el.setAttribute("aria-current", "true");
+}
+
+// Adds the label the cloud's word list is read with, and a live region for
+// announcements. Both are visually hidden and kept by clearCloud. Returns
+// the function that announces a message.
+export function createCloudAnnouncer(
+  container: HTMLElement,
+  label: string
+): (message: string) => void {
+  const labelEl = container.createDiv({
+    cls: "word-cloud-sr-only word-cloud-label",
+    text: label,
+  });
+  labelEl.id = `word-cloud-label-${++cloudLabelCount}`;
+
+  const liveRegion = container.createDiv({
+    cls: "word-cloud-sr-only",
+    attr: { "aria-live": "polite" },
+  });
+  return (message) => liveRegion.setText(message);
+}
+
+// The element words are drawn into. Screen readers read it as the cloud's
+// list, which only holds words: the buttons, legend and badges around it
+// stay outside.
+export function createWordList(container: HTMLElement): HTMLElement {
+  const list = container.createDiv({
+    cls: "word-cloud-words",
+    attr: { role: "list" },
+  });
+  const label = container.querySelector(".word-cloud-label");
+  if (label) list.setAttribute("aria-labelledby", label.id);
+  return list;
+}
+
+// Parts of a cloud that stay in place while its words are redrawn
+const KEPT_CLASSES = [
+  "word-cloud-sr-only",
+  "word-cloud-history",
+  "word-cloud-legend",
+  "word-cloud-edit",
+];
+
+// Remove the drawn words, keeping the screen reader text, history bar,
+// legend and edit button
+export function clearCloud(container: HTMLElement) {
+  for (const child of Array.from(container.children)) {
+    if (!KEPT_CLASSES.some((cls) => child.hasClass(cls))) child.remove();
+  }
+}
+
+// How many recently centered words the breadcrumb trail shows
+const MAX_CRUMBS = 5;
+
+// Back and forward buttons with a breadcrumb trail of centered words,
+// hidden until a second word has been centered
+export function renderHistoryBar(
+  bar: HTMLElement,
+  history: string[],
+  index: number,
+  onGo: (index: number) => void
+) {
+  bar.empty();
+  bar.toggleClass("is-hidden", history.length < 2);
+  if (history.length < 2) return;
+
+  const addButton = (icon: string, label: string, target: number) => {
+    const button = bar.createEl("button", {
+      cls: "word-cloud-history-button clickable-icon",
+      attr: { "aria-label": label },
+    });
+    setIcon(button, icon);
+    button.disabled = target < 0 || target >= history.length;
+    button.addEventListener("click", () => onGo(target));
+  };
+  addButton("chevron-left", "Back", index - 1);
+  addButton("chevron-right", "Forward", index + 1);
+
+  // A window of crumbs around the current word
+  const start = Math.max(
+    0,
+    Math.min(index - Math.floor(MAX_CRUMBS / 2), history.length - MAX_CRUMBS)
+  );
+  const trail = bar.createEl("ol", { cls: "word-cloud-history-trail" });
+  for (let i = start; i < Math.min(start + MAX_CRUMBS, history.length); i++) {
+    const crumb = trail.createEl("li").createEl("button", {
+      cls: "word-cloud-history-crumb",
+      text: history[i],
+    });
+    if (i === index) crumb.setAttribute("aria-current", "step");
+    crumb.addEventListener("click", () => onGo(i));
+  }
+}
+
+export interface LegendEntry {
+  group: string;
+  color: string;
+}
+
+// The groups of a cloud with their colors. Each entry is a toggle that
+// highlights its group, hidden while there's fewer than two groups.
+export function renderLegend(
+  legend: HTMLElement,
+  entries: LegendEntry[],
+  highlighted: string | null,
+  onToggle: (group: string) => void
+) {
+  legend.empty();
+  legend.toggleClass("is-hidden", entries.length < 2);
+  if (entries.length < 2) return;
+
+  const list = legend.createEl("ul", { cls: "word-cloud-legend-list" });
+  for (const { group, color } of entries) {
+    const button = list.createEl("li").createEl("button", {
+      cls: "word-cloud-legend-entry",
+      attr: { "aria-pressed": String(group === highlighted) },
+    });
+    if (color) {
+      button
+        .createSpan("word-cloud-legend-swatch")
+        .setCssProps({ "--wc-color": color });
+    }
+    button.createSpan({ text: group });
+    button.addEventListener("click", (evt) => {
+      evt.stopPropagation();
+      onToggle(group);
+    });
+  }
+}
+
+// Dim every word outside a group, or no words for null
+export function highlightGroup(container: HTMLElement, group: string | null) {
+  container
+    .querySelectorAll<HTMLElement | SVGElement>(WORD_SELECTOR)
+    .forEach((word) =>
+      word.toggleClass(
+        "is-dimmed",
+        group !== null && word.dataset.group !== group
+      )
+    );
+}
+
+// Computed rgb() values of CSS colors, theme variables included. Colors
+// are returned unchanged while the container isn't in the document.
+export function resolveCssColors(
+  container: HTMLElement,
+  colors: string[]
+): string[] {
+  if (!container.isConnected) return colors;
+  const probe = container.createDiv("word-cloud-sr-only");
+  const resolved = colors.map((color) => {
+    probe.setCssProps({ color });
+    return getComputedStyle(probe).color || color;
+  });
+  probe.remove();
+  return resolved;
+}
+
+// Cloud-wide font settings, inherited by the words drawn as spans
+export function setCloudTypography(
+  container: HTMLElement,
+  typography: Typography
+) {
+  container.setCssProps({
+    "--wc-font-family": typography.fontFamily,
+    "--wc-font-style": typography.italic ? "italic" : "normal",
+    "--wc-letter-spacing": typography.letterSpacing + "em",
+  });
+}
+
+// Measures words with the same font the cloud is drawn in, or guesses from
+// the characters when there's no canvas
+export function createCanvasMeasure(typography: Typography): MeasureFn {
+  const spacing = (word: string, fontSize: number) =>
+    typography.letterSpacing * fontSize * countCharacters(word);
+  const canvas = document.createElement("canvas");
+  let ctx: CanvasRenderingContext2D | null = null;
+
+  try {
+    ctx = canvas.getContext("2d");
+  } catch (error) {
+    console.error("Canvas context error:", error);
+  }
+
+  if (!ctx) {
+    console.error("Could not get canvas context");
+    return (word, fontSize) => ({
+      width: estimateTextWidth(word, fontSize) + spacing(word, fontSize),
+      height: fontSize,
+    });
+  }
+
+  const context: CanvasRenderingContext2D = ctx;
+  return (word, fontSize, fontWeight) => {
+    context.font = fontShorthand(typography, fontWeight, fontSize);
+    const metrics = context.measureText(word);
+    // Emoji and CJK glyphs can reach past the em box, and italics past
+    // the advance width, so the drawn ink counts too
+    const inkWidth =
+      metrics.actualBoundingBoxLeft + metrics.actualBoundingBoxRight;
+    const inkHeight =
+      metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent;
+    return {
+      width: Math.max(metrics.width, inkWidth || 0) + spacing(word, fontSize),
+      height: Math.max(fontSize, inkHeight || 0),
+    };
+  };
+}
+
+// Draw one placed word as an absolutely positioned span
+export function renderWord(
+  container: HTMLElement,
+  placement: Placement,
+  onSelect: SelectWordFn,
+  motion?: WordMotion
+): HTMLElement {
+  const { rotation, isCentered } = placement;
+
+  const tag = container.createEl("span");
+  tag.addClass("word-cloud-word");
+  tag.textContent = placement.word;
+  tag.dataset.word = placement.word;
+  if (placement.group) tag.dataset.group = placement.group;
+  setWordRole(tag, isCentered);
+  tag.setCssProps({
+    "--wc-font-size": placement.fontSize + "px",
+    "--wc-font-weight": placement.fontWeight,
+    "--wc-color": placement.color,
+    "--wc-left": placement.centerX - placement.width / 2 + "px",
+    "--wc-top": placement.centerY - placement.height / 2 + "px",
+  });
+
+  if (isCentered) {
+    tag.setCssProps({
+      "--wc-transform": `rotate(${rotation}deg) scale(${CENTERED_SCALE})`,
+      "--wc-z-index": "50",
+    });
+    tag.addClass("word-cloud-word--centered");
+  } else {
+    tag.setCssProps({
+      "--wc-transform": `rotate(${rotation}deg)`,
+      "--wc-z-index": "1",
+    });
+  }
+
+  tag.dataset.rotation = String(rotation);
+  tag.dataset.isCentered = String(isCentered);
+
+  tag.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect(placement.word, e);
+  });
+
+  tag.addEventListener("touchend", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect(placement.word, e);
+  });
+
+  tag.addEventListener("mouseenter", () => {
+    if (!isCentered) {
+      const rot = parseFloat(tag.dataset.rotation || "0");
+      tag.setCssProps({
+        "--wc-transform": `rotate(${rot}deg) scale(1.1)`,
+        "--wc-z-index": "100",
+      });
+    }
+  });
+
+  tag.addEventListener("mouseleave", () => {
+    if (!isCentered) {
+      const rot = parseFloat(tag.dataset.rotation || "0");
+      tag.setCssProps({
+        "--wc-transform": `rotate(${rot}deg) scale(1)`,
+        "--wc-z-index": "1",
+      });
+    }
+  });
+
+  let touchScaleTimeout: number;
+
+  tag.addEventListener("touchstart", () => {
+    if (!isCentered) {
+      const rot = parseFloat(tag.dataset.rotation || "0");
+      tag.setCssProps({
+        "--wc-transform": `rotate(${rot}deg) scale(1.1)`,
+        "--wc-z-index": "100",
+      });
+      if (touchScaleTimeout) window.clearTimeout(touchScaleTimeout);
+    }
+  });
+
+  tag.addEventListener("touchcancel", () => {
+    if (!isCentered) {
+      touchScaleTimeout = window.setTimeout(() => {
+        const rot = parseFloat(tag.dataset.rotation || "0");
+        tag.setCssProps({
+          "--wc-transform": `rotate(${rot}deg) scale(1)`,
+          "--wc-z-index": "1",
+        });
+      }, 100);
+    }
+  });
+
+  // Spans are positioned by their box, so motion is relative to the center
+  if (motion) {
+    animateWord(tag, placement, motion, placement.centerX, placement.centerY);
+  }
+
+  return tag;
+}
+
+// Draws the whole cloud into one inline SVG. Each word is a <text> in its
+// own group, and the SVG carries one set of listeners for all of them, so
+// clouds with hundreds of words stay light to scroll and re-render.
+export function createSvgCloud(
+  container: HTMLElement,
+  width: number,
+  height: number,
+  typography: Typography,
+  onSelect: SelectWordFn
+): DrawWordFn {
+  const svg = container.createSvg("svg", {
+    cls: "word-cloud-svg",
+    attr: {
+      // The words are items of the cloud's list, not parts of an image
+      role: "none",
+      width,
+      height,
+      viewBox: `0 0 ${width} ${height}`,
+      "font-family": typography.fontFamily,
+      "font-style": typography.italic ? "italic" : "normal",
+      "letter-spacing": typography.letterSpacing + "em",
+    },
+  });
+
+  const findWord = (evt: Event): SVGGElement | null =>
+    evt.target instanceof Element
+      ? evt.target.closest<SVGGElement>(".word-cloud-svg-word")
+      : null;
+
+  const select = (evt: MouseEvent | TouchEvent) => {
+    const word = findWord(evt)?.dataset.word;
+    if (word === undefined) return;
+    evt.preventDefault();
+    evt.stopPropagation();
+    onSelect(word, evt);
+  };
+
+  svg.addEventListener("click", select);
+  svg.addEventListener("touchend", (evt) => {
+    findWord(evt)?.removeClass("is-active");
+    select(evt);
+  });
+
+  // SVG has no z-index, so a hovered word is moved to the end to draw on top
+  svg.addEventListener("mouseover", (evt) => {
+    const group = findWord(evt);
+    if (group && group !== svg.lastElementChild) svg.appendChild(group);
+  });
+
+  svg.addEventListener("touchstart", (evt) => {
+    findWord(evt)?.addClass("is-active");
+  });
+
+  svg.addEventListener("touchcancel", (evt) => {
+    const group = findWord(evt);
+    if (group) window.setTimeout(() => group.removeClass("is-active"), 100);
+  });
+
+  return (placement, motion) => {
+    const { centerX, centerY, rotation, isCentered } = placement;
+    const scale = isCentered ? ` scale(${CENTERED_SCALE})` : "";
+
+    const group = svg.createSvg("g", {
+      cls: "word-cloud-svg-word",
+      attr: {
+        transform: `translate(${centerX} ${centerY}) rotate(${rotation})${scale}`,
+      },
+    });
+    group.dataset.word = placement.word;
+    if (placement.group) group.dataset.group = placement.group;
+    setWordRole(group, isCentered);
+
+    const text = group.createSvg("text", {
+      attr: {
+        "text-anchor": "middle",
+        "dominant-baseline": "central",
+        "font-size": placement.fontSize,
+        "font-weight": placement.fontWeight,
+      },
+    });
+    text.textContent = placement.word;
+    // A CSS property rather than the fill attribute, so theme variables work
+    text.setCssProps({ "--wc-color": placement.color });
+
+    if (isCentered) group.addClass("word-cloud-svg-word--centered");
+
+    // Groups are placed by their transform, so motion is relative to the
+    // SVG's origin
+    if (motion) animateWord(group, placement, motion, 0, 0);
+    return group;
+  };
+}
+
+// Transform that puts a word where a placement says, for an element whose
+// own position is originX/originY
+function placementTransform(
+  placement: Placement,
+  originX: number,
+  originY: number,
+  fontSize: number
+): string {
+  const scale =
+    ((placement.isCentered ? CENTERED_SCALE : 1) * placement.fontSize) /
+    fontSize;
+  return (
+    `translate(${placement.centerX - originX}px, ${
+      placement.centerY - originY
+    }px) ` + `rotate(${placement.rotation}deg) scale(${scale})`
+  );
+}
+
+// FLIP-style animation: the word starts out looking like it did in the
+// previous layout and moves to its new place. Words without a previous
+// place fade in once the others are on their way.
+function animateWord(
+  el: Element,
+  placement: Placement,
+  motion: WordMotion,
+  originX: number,
+  originY: number
+) {
+  const { from } = motion;
+  if (!from) {
+    el.animate([{ opacity: 0 }, { opacity: 1 }], {
+      duration: FADE_MS,
+      delay: MOVE_MS / 2,
+      easing: "ease-out",
+      fill: "backwards",
+    });
+    return;
+  }
+
+  const fontSize = placement.fontSize;
+  el.animate(
+    [
+      { transform: placementTransform(from, originX, originY, fontSize) },
+      { transform: placementTransform(placement, originX, originY, fontSize) },
+    ],
+    { duration: MOVE_MS, easing: "ease-in-out" }
+  );
+}
+
+// Badge in the corner of a cloud naming the words that didn't fit, listed
+// when it's hovered or focused
+export function renderHiddenBadge(container: HTMLElement, words: string[]) {
+  const badge = container.createDiv("word-cloud-hidden");
+  badge.tabIndex = 0;
+  badge.createSpan({
+    cls: "word-cloud-hidden-count",
+    text: `${words.length} ${words.length === 1 ? "word" : "words"} hidden`,
+  });
+  const list = badge.createEl("ul", { cls: "word-cloud-hidden-list" });
+  for (const word of words) list.createEl("li", { text: word });
+}
+
+// Button in the corner of a cloud that opens its block for editing
+export function renderEditButton(container: HTMLElement, onEdit: () => void) {
+  const button = container.createEl("button", {
+    cls: "word-cloud-edit clickable-icon",
+    attr: { "aria-label": "Edit word cloud" },
+  });
+  setIcon(button, "pencil");
+  button.addEventListener("click", (evt) => {
+    evt.preventDefault();
+    evt.stopPropagation();
+    onEdit();
+  });
+}
@@ -0,0 +1,59 @@
+import { RandomFn } from "./random";
+
+export type RotationMode = "horizontal" | "mixed" | "angles" | "range";
+
+export interface RotationSettings {
+  rotationMode: RotationMode;
+  rotationAngles: number[];
+  rotationRange: [number, number];
+}
+
+// Mostly horizontal with the odd vertical word, as clouds have always looked
+const MIXED_ROTATIONS = [0, 0, 0, 0, 90, -90];
+
+const ANGLE = /^[+-]?\d+(?:\.\d+)?$/;
+
+// "-45, 0, 45" → [-45, 0, 45]
+export function parseAngles(value: string): number[] | null {
+  const parts = value
+    .split(/[\s,]+/)
+    .map((part) => part.replace(/°$/, ""))
+    .filter((part) => part.length > 0);
+  if (parts.length === 0 || !parts.every((part) => ANGLE.test(part))) {
+    return null;
+  }
+  return parts.map((part) => parseFloat(part));
+}
+
+// "-60 to 60" or "-60..60" → [-60, 60]
+export function parseAngleRange(value: string): [number, number] | null {
+  const match = value
+    .replace(/°/g, "")
+    .match(/^([+-]?\d+(?:\.\d+)?)\s*(?:to|\.\.)\s*([+-]?\d+(?:\.\d+)?)$/i);
+  if (!match) return null;
+  const min = parseFloat(match[1]);
+  const max = parseFloat(match[2]);
+  return min <= max ? [min, max] : null;
+}
+
+export function pickRotation(
+  settings: RotationSettings,
+  random: RandomFn
+): number {
+  switch (settings.rotationMode) {
+    case "horizontal":
+      return 0;
+    case "angles": {
+      const angles =
+        settings.rotationAngles.length > 0 ? settings.rotationAngles : [0];
+      return angles[Math.floor(random() * angles.length)];
+    }
+    case "range": {
+      const [min, max] = settings.rotationRange;
+      return Math.round(min + random() * (max - min));
+    }
+    case "mixed":
+    default:
+      return MIXED_ROTATIONS[Math.floor(random() * MIXED_ROTATIONS.length)];
+  }
+}
@@ -0,0 +1,100 @@
+import { ColorMode } from "./colors";
+import { NamedPalette } from "./palettes";
+import { RotationMode } from "./rotation";
+import { ShapeName } from "./shapes";
+import { SizeScale } from "./words";
+
+export type Casing = "as-is" | "uppercase" | "lowercase" | "title-case";
+export type SpacingPreset = "compact" | "normal" | "comfortable" | "loose";
+export type ClickAction = "recenter" | "open" | "open-or-create" | "search";
+export type RendererMode = "auto" | "html" | "svg";
+export type OverflowStrategy = "shrink" | "grow" | "badge";
+export type HeightMode = "auto" | "aspect" | "fill";
+export type JournalTarget = "note" | "daily";
+
+export interface WordCloudSettings {
+  minFontSize: number;
+  maxFontSize: number;
+  colorPalette: string[];
+  palettes: NamedPalette[];
+  colorMode: ColorMode;
+  contrastCheck: boolean;
+  // Lists split by headings into groups
+  clusterGroups: boolean;
+  showLegend: boolean;
+  separator: string;
+  spacing: SpacingPreset;
+  autoFontSize: boolean;
+  autoSpacing: boolean;
+  // Empty to use the note's font
+  fontFamily: string;
+  // One weight, or several spread from the smallest words to the largest
+  fontWeight: string;
+  italic: boolean;
+  // In em
+  letterSpacing: number;
+  casing: Casing;
+  sizeScale: SizeScale;
+  rotationMode: RotationMode;
+  rotationAngles: number[];
+  rotationRange: [number, number];
+  shape: ShapeName;
+  clickAction: ClickAction;
+  modClickAction: ClickAction;
+  newNoteFolder: string;
+  noteTemplate: string;
+  exportFolder: string;
+  exportPng: boolean;
+  exportEmbed: boolean;
+  renderer: RendererMode;
+  svgThreshold: number;
+  overflow: OverflowStrategy;
+  heightMode: HeightMode;
+  // Width to height such as 16:9, for the aspect height mode
+  aspectRatio: string;
+  animate: boolean;
+  logWords: boolean;
+  logTarget: JournalTarget;
+  logNote: string;
+}
+
+export const DEFAULT_SETTINGS: WordCloudSettings = {
+  minFontSize: 12,
+  maxFontSize: 48,
+  colorPalette: ["#0066cc", "#cc6600", "#cc0066", "#6600cc", "#00cc66"],
+  palettes: [],
+  colorMode: "random",
+  contrastCheck: false,
+  clusterGroups: false,
+  showLegend: true,
+  separator: ",",
+  spacing: "normal",
+  autoFontSize: true,
+  autoSpacing: true,
+  fontFamily: "",
+  fontWeight: "bold",
+  italic: false,
+  letterSpacing: 0,
+  casing: "as-is",
+  sizeScale: "linear",
+  rotationMode: "mixed",
+  rotationAngles: [-45, 0, 45],
+  rotationRange: [-60, 60],
+  shape: "rectangle",
+  clickAction: "recenter",
+  modClickAction: "open",
+  newNoteFolder: "",
+  noteTemplate: "",
+  exportFolder: "Word clouds",
+  exportPng: false,
+  exportEmbed: false,
+  renderer: "auto",
+  svgThreshold: 150,
+  overflow: "shrink",
+  heightMode: "auto",
+  aspectRatio: "16:10",
+  animate: true,
+  logWords: false,
+  logTarget: "note",
+  logNote: "Provocations.md",
+};
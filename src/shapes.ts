@@ -0,0 +1,89 @@
+import { PlacedRect, getOutlinePoints } from "./geometry";
+
+export type ShapeName = "rectangle" | "circle" | "ellipse" | "heart" | "star";
+
+export const SHAPE_NAMES: ShapeName[] = [
+  "rectangle",
+  "circle",
+  "ellipse",
+  "heart",
+  "star",
+];
+
+// Where words may go, in container pixels
+export interface ShapeMask {
+  contains(x: number, y: number): boolean;
+}
+
+// Outline points closer than this catch the dents of hearts and stars
+const OUTLINE_SAMPLE_SPACING = 6;
+
+export function fitsShape(mask: ShapeMask, rect: PlacedRect): boolean {
+  return getOutlinePoints(rect, OUTLINE_SAMPLE_SPACING).every((point) =>
+    mask.contains(point.x, point.y)
+  );
+}
+
+function pointInPolygon(x: number, y: number, polygon: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Built-in shapes, centered in the container and kept `margin` from its edges.
+// Returns null for the plain rectangle, which needs no mask.
+export function createShapeMask(
+  shape: ShapeName,
+  width: number,
+  height: number,
+  margin: number
+): ShapeMask | null {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radiusX = width / 2 - margin;
+  const radiusY = height / 2 - margin;
+  const radius = Math.min(radiusX, radiusY);
+
+  switch (shape) {
+    case "circle":
+      return {
+        contains: (x, y) =>
+          (x - centerX) ** 2 + (y - centerY) ** 2 <= radius ** 2,
+      };
+    case "ellipse":
+      return {
+        contains: (x, y) =>
+          ((x - centerX) / radiusX) ** 2 + ((y - centerY) / radiusY) ** 2 <= 1,
+      };
+    case "heart": {
+      // (x² + y² - 1)³ - x²y³ ≤ 0 spans about 2.3 units each way, and its
+      // middle sits 0.12 units above the origin
+      const scale = radius / 1.15;
+      return {
+        contains: (x, y) => {
+          const u = (x - centerX) / scale;
+          const v = -(y - centerY) / scale + 0.12;
+          return (u * u + v * v - 1) ** 3 - u * u * v ** 3 <= 0;
+        },
+      };
+    }
+    case "star": {
+      // Five points with a wide body, so words still fit in the middle
+      const polygon = Array.from({ length: 10 }, (_, i) => {
+        const r = i % 2 === 0 ? radius : radius * 0.55;
+        const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+        return [centerX + r * Math.cos(angle), centerY + r * Math.sin(angle)];
+      });
+      return { contains: (x, y) => pointInPolygon(x, y, polygon) };
+    }
+    case "rectangle":
+    default:
+      return null;
+  }
+}
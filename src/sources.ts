@@ -0,0 +1,160 @@
+import { App, TFile, TFolder, getAllTags, normalizePath } from "obsidian";
+import { CloudOptions } from "./options";
+import { tokenize } from "./tokenize";
+import { fileListEntries } from "./wordlists";
+import { WordEntry } from "./words";
+
+// Frequency clouds show this many words unless the block sets a limit
+const DEFAULT_FREQUENCY_LIMIT = 50;
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, "").toLowerCase();
+}
+
+function matchesTagFilters(tag: string, options: CloudOptions): boolean {
+  const name = normalizeTag(tag);
+  const include = (options.include || []).map(normalizeTag);
+  const exclude = (options.exclude || []).map(normalizeTag);
+  if (include.length > 0 && !include.some((p) => name.startsWith(p))) {
+    return false;
+  }
+  return !exclude.some((prefix) => name.startsWith(prefix));
+}
+
+// Drop entries below the minimum count and keep the top N by weight
+export function limitEntries(
+  entries: WordEntry[],
+  options: CloudOptions
+): WordEntry[] {
+  const minCount = options.minCount || 1;
+  const filtered = entries
+    .filter((entry) => entry.weight >= minCount)
+    .sort((a, b) => b.weight - a.weight);
+  return options.limit ? filtered.slice(0, options.limit) : filtered;
+}
+
+// Count every tag occurrence in the vault, tags differing only in case are
+// the same tag in Obsidian so they share a count
+export function collectTagEntries(
+  app: App,
+  options: CloudOptions
+): WordEntry[] {
+  const counts = new Map<string, WordEntry>();
+
+  app.vault.getMarkdownFiles().forEach((file) => {
+    const cache = app.metadataCache.getFileCache(file);
+    if (!cache) return;
+
+    (getAllTags(cache) || []).forEach((tag) => {
+      if (!matchesTagFilters(tag, options)) return;
+      const key = normalizeTag(tag);
+      const existing = counts.get(key);
+      if (existing) {
+        existing.weight++;
+      } else {
+        const name = tag.replace(/^#/, "");
+        // Nested tags are grouped under their top-level tag
+        const group = key.split("/")[0];
+        counts.set(key, { word: name, weight: 1, tag: name, group });
+      }
+    });
+  });
+
+  return limitEntries(Array.from(counts.values()), options);
+}
+
+// Notes a frequency cloud reads, for `note`, `folder` and `this` sources
+function resolveSourceFiles(
+  app: App,
+  options: CloudOptions,
+  sourcePath: string
+): TFile[] {
+  const source = options.source;
+  if (!source) return [];
+
+  switch (source.type) {
+    case "this": {
+      const file = app.vault.getAbstractFileByPath(sourcePath);
+      if (!(file instanceof TFile)) {
+        throw new Error("This cloud isn't inside a note, so it can't read it");
+      }
+      return [file];
+    }
+    case "note": {
+      const file = app.metadataCache.getFirstLinkpathDest(
+        source.path,
+        sourcePath
+      );
+      if (!file) throw new Error(`Note "${source.path}" not found`);
+      return [file];
+    }
+    case "folder": {
+      const path = normalizePath(source.path);
+      const folder =
+        path === "/"
+          ? app.vault.getRoot()
+          : app.vault.getAbstractFileByPath(path);
+      if (!(folder instanceof TFolder)) {
+        throw new Error(`Folder "${source.path}" not found`);
+      }
+      const prefix = folder.isRoot() ? "" : folder.path + "/";
+      return app.vault
+        .getMarkdownFiles()
+        .filter((file) => file.path.startsWith(prefix));
+    }
+    default:
+      return [];
+  }
+}
+
+// Count how often each word is used across the source notes
+export async function collectWordFrequencies(
+  app: App,
+  options: CloudOptions,
+  sourcePath: string
+): Promise<WordEntry[]> {
+  const files = resolveSourceFiles(app, options, sourcePath);
+  const counts = new Map<string, number>();
+
+  for (const file of files) {
+    const content = await app.vault.cachedRead(file);
+    tokenize(content, options.stopwords).forEach((word) => {
+      counts.set(word, (counts.get(word) || 0) + 1);
+    });
+  }
+
+  const entries = Array.from(counts, ([word, weight]) => ({ word, weight }));
+  return limitEntries(entries, {
+    ...options,
+    limit: options.limit || DEFAULT_FREQUENCY_LIMIT,
+  });
+}
+
+// The file a `source: file` cloud reads: a link resolved like any link from
+// the note, or a path from the vault root
+export function resolveListFile(
+  app: App,
+  path: string,
+  sourcePath: string
+): TFile | null {
+  const linked = app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+  if (linked) return linked;
+  const file = app.vault.getAbstractFileByPath(normalizePath(path));
+  return file instanceof TFile ? file : null;
+}
+
+// Words from a list file: CSV columns, a note's bullet list or plain text
+export async function collectFileEntries(
+  app: App,
+  options: CloudOptions,
+  sourcePath: string
+): Promise<WordEntry[]> {
+  const source = options.source;
+  if (source?.type !== "file") return [];
+  const file = resolveListFile(app, source.path, sourcePath);
+  if (!file) throw new Error(`File "${source.path}" not found`);
+  return fileListEntries(await app.vault.cachedRead(file), file.extension, {
+    column: options.column,
+    weightColumn: options.weightColumn,
+  });
+}
@@ -0,0 +1,131 @@
+export interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface GridEntry<T> {
+  item: T;
+  stamp: number;
+}
+
+// Uniform grid over the cloud. Each item is stored in every cell its bounds
+// touch, so a collision check only looks at the items near the candidate
+// instead of every word placed so far.
+export class SpatialGrid<T> {
+  private cellSize: number;
+  private cells = new Map<number, GridEntry<T>[]>();
+  // Bumped on every query so items spanning several cells are checked once
+  private queryStamp = 0;
+
+  constructor(cellSize: number) {
+    this.cellSize = Math.max(1, cellSize);
+  }
+
+  // Cell coordinates packed into one number; clouds never get near the range
+  private key(col: number, row: number): number {
+    return (col + 32768) * 65536 + (row + 32768);
+  }
+
+  private forEachCell(bounds: Bounds, fn: (key: number) => boolean | void) {
+    const firstCol = Math.floor(bounds.left / this.cellSize);
+    const lastCol = Math.floor(bounds.right / this.cellSize);
+    const firstRow = Math.floor(bounds.top / this.cellSize);
+    const lastRow = Math.floor(bounds.bottom / this.cellSize);
+
+    for (let col = firstCol; col <= lastCol; col++) {
+      for (let row = firstRow; row <= lastRow; row++) {
+        if (fn(this.key(col, row)) === true) return;
+      }
+    }
+  }
+
+  insert(bounds: Bounds, item: T) {
+    const entry: GridEntry<T> = { item, stamp: 0 };
+    this.forEachCell(bounds, (key) => {
+      const cell = this.cells.get(key);
+      if (cell) cell.push(entry);
+      else this.cells.set(key, [entry]);
+    });
+  }
+
+  // True if any item whose cells overlap the bounds matches the predicate
+  some(bounds: Bounds, predicate: (item: T) => boolean): boolean {
+    const stamp = ++this.queryStamp;
+    let found = false;
+    this.forEachCell(bounds, (key) => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      for (const entry of cell) {
+        if (entry.stamp === stamp) continue;
+        entry.stamp = stamp;
+        if (predicate(entry.item)) {
+          found = true;
+          return true;
+        }
+      }
+    });
+    return found;
+  }
+}
+
+// Which parts of the cloud words already cover, in small square cells. A
+// cell counts as covered when its center is inside a word. Looking up one
+// cell is much cheaper than a collision check, so positions that are plainly
+// taken can be skipped before running one.
+export class OccupancyGrid {
+  readonly cellSize: number;
+  private columns: number;
+  private rows: number;
+  private cells: Uint8Array;
+
+  constructor(width: number, height: number, cellSize: number) {
+    this.cellSize = Math.max(1, cellSize);
+    this.columns = Math.max(1, Math.ceil(width / this.cellSize));
+    this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+    this.cells = new Uint8Array(this.columns * this.rows);
+  }
+
+  // Mark the cells within the bounds whose centers pass the test
+  fill(bounds: Bounds, contains: (x: number, y: number) => boolean) {
+    const firstCol = Math.max(0, Math.floor(bounds.left / this.cellSize));
+    const lastCol = Math.min(
+      this.columns - 1,
+      Math.floor(bounds.right / this.cellSize)
+    );
+    const firstRow = Math.max(0, Math.floor(bounds.top / this.cellSize));
+    const lastRow = Math.min(
+      this.rows - 1,
+      Math.floor(bounds.bottom / this.cellSize)
+    );
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      const y = (row + 0.5) * this.cellSize;
+      for (let col = firstCol; col <= lastCol; col++) {
+        if (contains((col + 0.5) * this.cellSize, y)) {
+          this.cells[row * this.columns + col] = 1;
+        }
+      }
+    }
+  }
+
+  isCovered(x: number, y: number): boolean {
+    // Truncating is flooring once negatives are ruled out, and cheaper in
+    // a lookup made millions of times per layout
+    if (x < 0 || y < 0) return false;
+    const col = (x / this.cellSize) | 0;
+    const row = (y / this.cellSize) | 0;
+    if (col >= this.columns || row >= this.rows) return false;
+    return this.cells[row * this.columns + col] === 1;
+  }
+
+  // Whether any of the points, given as x, y pairs relative to a position,
+  // is on a covered cell
+  isAnyCovered(x: number, y: number, offsets: number[]): boolean {
+    for (let i = 0; i < offsets.length; i += 2) {
+      if (this.isCovered(x + offsets[i], y + offsets[i + 1])) return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,77 @@
+// Common English words that say nothing about what a note is about
+const STOPWORDS = new Set(
+  (
+    "a about above after again against all also am an and any are aren't as at " +
+    "be because been before being below between both but by can can't cannot " +
+    "could couldn't did didn't do does doesn't doing don't down during each " +
+    "even ever every few for from further get gets got had hadn't has hasn't " +
+    "have haven't having he he'd he'll he's her here here's hers herself him " +
+    "himself his how how's however i i'd i'll i'm i've if in into is isn't it " +
+    "it's its itself just let's like made make many may me might more most " +
+    "much must mustn't my myself need no nor not now of off on once one only " +
+    "or other ought our ours ourselves out over own really same shall shan't " +
+    "she she'd she'll she's should shouldn't since so some still such than " +
+    "that that's the their theirs them themselves then there there's these " +
+    "they they'd they'll they're they've this those though through thus to " +
+    "too under until up upon us use used using very via was wasn't way we " +
+    "we'd we'll we're we've well were weren't what what's when when's where " +
+    "where's whether which while who who's whom whose why why's will with " +
+    "within without won't would wouldn't yet you you'd you'll you're you've " +
+    "your yours yourself yourselves"
+  ).split(" ")
+);
+
+// Remove the parts of a markdown note that aren't prose
+export function stripMarkdown(markdown: string): string {
+  return (
+    markdown
+      // frontmatter
+      .replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, "")
+      // fenced code blocks and math
+      .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, " ")
+      .replace(/\$\$[\s\S]*?\$\$/g, " ")
+      // inline code
+      .replace(/`[^`\n]*`/g, " ")
+      // comments and html
+      .replace(/%%[\s\S]*?%%/g, " ")
+      .replace(/<!--[\s\S]*?-->/g, " ")
+      .replace(/<[^>\n]+>/g, " ")
+      // wiki links and embeds
+      .replace(/!?\[\[[^\]\n]*\]\]/g, " ")
+      // markdown links keep their text, images go entirely
+      .replace(/!\[[^\]\n]*\]\([^)\n]*\)/g, " ")
+      .replace(/\[([^\]\n]*)\]\([^)\n]*\)/g, "$1")
+      // bare urls, tags and block references
+      .replace(/\b(?:https?|ftp|file|obsidian):\/\/\S+/gi, " ")
+      .replace(/\bwww\.\S+/gi, " ")
+      .replace(/(^|\s)#[^\s#]+/g, "$1")
+      .replace(/\s\^[\w-]+$/gm, " ")
+  );
+}
+
+// Lowercased words from a note, without stopwords, numbers or single letters
+export function tokenize(
+  markdown: string,
+  extraStopwords: string[] = []
+): string[] {
+  const extra = new Set(extraStopwords.map((w) => w.toLowerCase()));
+  const tokens =
+    stripMarkdown(markdown)
+      .toLowerCase()
+      .match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || [];
+
+  return tokens
+    .map((token) =>
+      token
+        .replace(/’/g, "'")
+        .replace(/['-]+$/, "")
+        .replace(/'s$/, "")
+    )
+    .filter(
+      (token) =>
+        token.length > 1 &&
+        !/^[\p{N}'-]+$/u.test(token) &&
+        !STOPWORDS.has(token) &&
+        !extra.has(token)
+    );
+}
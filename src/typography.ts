@@ -0,0 +1,124 @@
+// How a cloud's words are set. Clouds measure and draw with the same values,
+// so what the layout reserves is what ends up on screen.
+export interface Typography {
+  fontFamily: string;
+  // One weight for every size, or several spread from the smallest words
+  // to the largest
+  fontWeights: string[];
+  italic: boolean;
+  // Extra space after every character, in em
+  letterSpacing: number;
+}
+
+const FONT_WEIGHT = /^(?:normal|bold|\d{1,4})$/;
+
+// Weights such as "bold" or "300, 500, 800"
+export function parseFontWeights(value: string): string[] | null {
+  const weights = value
+    .split(/[\s,]+/)
+    .map((weight) => weight.trim().toLowerCase())
+    .filter((weight) => weight.length > 0);
+  const valid = weights.every(
+    (weight) =>
+      FONT_WEIGHT.test(weight) &&
+      (!/^\d/.test(weight) || (+weight >= 1 && +weight <= 1000))
+  );
+  return weights.length > 0 && valid ? weights : null;
+}
+
+// Letter spacing in em, written as 0.05 or 0.05em
+export function parseLetterSpacing(value: string): number | null {
+  const match = value.trim().match(/^(-?\d*\.?\d+)\s*(?:em)?$/i);
+  const spacing = match ? parseFloat(match[1]) : NaN;
+  return isFinite(spacing) && Math.abs(spacing) <= 1 ? spacing : null;
+}
+
+// The weight for a font size: the size range is split into one band per
+// weight, lightest for the smallest words
+export function fontWeightForSize(
+  weights: string[],
+  fontSize: number,
+  minFontSize: number,
+  maxFontSize: number
+): string {
+  if (weights.length <= 1) return weights[0] || "bold";
+  const range = maxFontSize - minFontSize;
+  const t = range > 0 ? (fontSize - minFontSize) / range : 1;
+  const band = Math.floor(Math.min(1, Math.max(0, t)) * weights.length);
+  return weights[Math.min(band, weights.length - 1)];
+}
+
+// CSS font shorthand, as canvas and document.fonts expect it
+export function fontShorthand(
+  typography: Typography,
+  fontWeight: string,
+  fontSize: number
+): string {
+  const style = typography.italic ? "italic " : "";
+  return `${style}${fontWeight} ${fontSize}px ${typography.fontFamily}`;
+}
+
+// Wait until the cloud's fonts can be measured. Web fonts load lazily, and
+// measuring with a fallback font leaves gaps or overlaps once the real one
+// arrives. Gives up after timeoutMs so a missing font doesn't stall a cloud.
+export async function loadFonts(
+  typography: Typography,
+  text: string,
+  timeoutMs: number
+): Promise<void> {
+  if (typeof document === "undefined" || !document.fonts) return;
+  // Fonts split by unicode-range only load the parts the text needs
+  const loads = typography.fontWeights.map((weight) =>
+    document.fonts.load(fontShorthand(typography, weight, 16), text)
+  );
+  const timeout = new Promise<void>((resolve) =>
+    window.setTimeout(resolve, timeoutMs)
+  );
+  try {
+    await Promise.race([Promise.all(loads), timeout]);
+  } catch (error) {
+    console.error("Word cloud font error:", error);
+  }
+}
+
+interface GraphemeSegmenter {
+  segment(text: string): Iterable<unknown>;
+}
+
+// Not in the TypeScript libs this plugin builds against
+const Segmenter = (
+  Intl as unknown as {
+    Segmenter?: new (
+      locale?: string,
+      options?: { granularity: "grapheme" }
+    ) => GraphemeSegmenter;
+  }
+).Segmenter;
+
+const graphemes = Segmenter
+  ? new Segmenter(undefined, { granularity: "grapheme" })
+  : null;
+
+// Characters as a reader sees them, so an emoji made of several code points
+// counts once
+export function countCharacters(text: string): number {
+  if (graphemes) {
+    let count = 0;
+    for (const _ of graphemes.segment(text)) count++;
+    return count;
+  }
+  return Array.from(text).length;
+}
+
+// CJK, Hangul, fullwidth forms and emoji take a full em
+const WIDE_CHARACTER =
+  /[ᄀ-ᅟ⺀-꓏가-힣豈-﫿︰-﹏＀-｠￠-￦\u{1f300}-\u{1faff}\u{20000}-\u{3fffd}]/u;
+
+// Width guess for when there's no canvas to measure with
+export function estimateTextWidth(text: string, fontSize: number): number {
+  return Array.from(text).reduce(
+    (width, char) =>
+      width + (WIDE_CHARACTER.test(char) ? fontSize : fontSize * 0.6),
+    0
+  );
+}
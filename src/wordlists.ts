@@ -0,0 +1,193 @@
+import { AUTO_SEPARATOR, readList } from "./lists";
+import { WordEntry, parseWeightedWord } from "./words";
+
+// Files a cloud can take its words from
+export const LIST_EXTENSIONS = ["csv", "tsv", "txt", "md"];
+
+// Which columns of a CSV file hold the words and their weights: a header
+// name, or a number counting from 1
+export interface ColumnOptions {
+  column?: string;
+  weightColumn?: string;
+  // Whether the first row is a header, when known
+  header?: boolean;
+}
+
+const NUMBER = /^-?\d+(?:\.\d+)?$/;
+
+// Rows of a CSV file. Fields can be quoted, with "" for a quote inside.
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Tab for .tsv files, otherwise whichever of comma, semicolon and tab the
+// first line uses most
+export function detectCsvDelimiter(text: string, extension: string): string {
+  if (extension === "tsv") return "\t";
+  const firstLine = text.split("\n", 1)[0];
+  const counts = [",", ";", "\t"].map(
+    (delimiter) => firstLine.split(delimiter).length - 1
+  );
+  return [",", ";", "\t"][counts.indexOf(Math.max(...counts))];
+}
+
+// A first row is taken as a header when one of its cells is text over a
+// column that is otherwise all numbers, such as "Count" over 3, 5, 2
+export function looksLikeHeader(rows: string[][]): boolean {
+  if (rows.length < 2) return false;
+  return rows[0].some(
+    (cell, i) =>
+      !NUMBER.test(cell.trim()) &&
+      rows.slice(1).every((row) => NUMBER.test((row[i] || "").trim()))
+  );
+}
+
+// Index of a column given by header name or by number from 1, or -1
+function findColumn(header: string[] | null, column: string): number {
+  const name = column.trim().toLowerCase();
+  const named = header
+    ? header.findIndex((cell) => cell.trim().toLowerCase() === name)
+    : -1;
+  if (named >= 0) return named;
+  return /^\d+$/.test(name) ? parseInt(name) - 1 : -1;
+}
+
+// Words, and optionally weights, from the columns of a CSV file. Naming a
+// column by its header means the first row is a header; otherwise it's
+// guessed from the contents.
+export function csvEntries(
+  rows: string[][],
+  options: ColumnOptions
+): WordEntry[] {
+  const first = rows[0] || [];
+  const isName = (column?: string) =>
+    column !== undefined &&
+    first.some((cell) => cell.trim().toLowerCase() === column.toLowerCase());
+  const hasHeader =
+    options.header ??
+    (isName(options.column) ||
+      isName(options.weightColumn) ||
+      looksLikeHeader(rows));
+  const header = hasHeader ? first : null;
+
+  const wordIndex = options.column ? findColumn(header, options.column) : 0;
+  if (wordIndex < 0) {
+    throw new Error(`Column "${options.column}" not found`);
+  }
+  const weightIndex = options.weightColumn
+    ? findColumn(header, options.weightColumn)
+    : -1;
+  if (options.weightColumn && weightIndex < 0) {
+    throw new Error(`Column "${options.weightColumn}" not found`);
+  }
+
+  return rows
+    .slice(hasHeader ? 1 : 0)
+    .map((row) => {
+      const word = (row[wordIndex] || "").trim();
+      const weight =
+        weightIndex >= 0 ? parseFloat((row[weightIndex] || "").trim()) : 1;
+      return { word, weight: weight > 0 ? weight : 1 };
+    })
+    .filter((entry) => entry.word.length > 0);
+}
+
+const BULLET = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?(.+)$/;
+
+const HEADING = /^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/;
+
+// The items of a note's bullet and numbered lists, with links reduced to
+// their text and grouped by the heading they're under. Items can carry
+// weights like any list entry.
+export function bulletListEntries(markdown: string): WordEntry[] {
+  const entries: WordEntry[] = [];
+  let group: string | undefined;
+
+  for (const line of markdown.split("\n")) {
+    const heading = line.match(HEADING);
+    if (heading) {
+      group = heading[1];
+      continue;
+    }
+    const match = line.match(BULLET);
+    if (!match) continue;
+    const entry = parseWeightedWord(
+      match[1]
+        .replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, "$2")
+        .replace(/\[\[([^\]]*)\]\]/g, "$1")
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    );
+    if (entry.word.length === 0) continue;
+    entries.push(group ? { ...entry, group } : entry);
+  }
+
+  return entries;
+}
+
+// Words from a plain text list, in whatever format it's written in
+export function textListEntries(text: string): WordEntry[] {
+  return readList(text, AUTO_SEPARATOR);
+}
+
+// Words from the contents of a list file, read by its type
+export function fileListEntries(
+  text: string,
+  extension: string,
+  options: ColumnOptions
+): WordEntry[] {
+  switch (extension.toLowerCase()) {
+    case "csv":
+    case "tsv":
+      return csvEntries(
+        parseCsv(text, detectCsvDelimiter(text, extension)),
+        options
+      );
+    case "md":
+      return bulletListEntries(text);
+    default:
+      return textListEntries(text);
+  }
+}
+
+// Words copied from anywhere: a bullet list if there is one, otherwise a
+// list in any of the usual formats
+export function clipboardEntries(text: string): WordEntry[] {
+  const bullets = bulletListEntries(text);
+  return bullets.length > 0 ? bullets : textListEntries(text);
+}
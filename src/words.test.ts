@@ -0,0 +1,25 @@
+import { applyCasing } from "./words";
+
+describe("applyCasing", () => {
+  it("leaves text as it is", () => {
+    expect(applyCasing("iPhone app", "as-is")).toBe("iPhone app");
+  });
+
+  it("changes case", () => {
+    expect(applyCasing("Word Cloud", "uppercase")).toBe("WORD CLOUD");
+    expect(applyCasing("Word Cloud", "lowercase")).toBe("word cloud");
+  });
+
+  it("capitalizes single words", () => {
+    expect(applyCasing("oBSIDIAN", "title-case")).toBe("Obsidian");
+  });
+
+  it("keeps small words lowercase inside titles", () => {
+    expect(applyCasing("the lord OF the rings", "title-case")).toBe(
+      "The Lord of the Rings"
+    );
+    expect(applyCasing("what it stands for", "title-case")).toBe(
+      "What It Stands For"
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { RandomFn } from "./random";
+import { Casing } from "./settings";
+
+export interface WordEntry {
+  word: string;
+  weight: number;
+  // Vault tag the word stands for, in tag clouds
+  tag?: string;
+  // The heading a listed word is under, or a tag's top-level tag. Words in
+  // the same group share a color in the group color mode.
+  group?: string;
+}
+
+export type SizeScale = "linear" | "log" | "sqrt";
+
+// "innovation:5" or "design (3)"
+const WEIGHT_COLON = /^(.+?)\s*:\s*(\d+(?:\.\d+)?)$/;
+const WEIGHT_PARENS = /^(.+?)\s*\(\s*(\d+(?:\.\d+)?)\s*\)$/;
+
+// Split an optional weight off a raw entry, defaulting to a weight of 1.
+// A weight can't start before literalEnd, where quoted or escaped text ends.
+export function parseWeightedWord(raw: string, literalEnd = 0): WordEntry {
+  const text = raw.trim();
+  const match = text.match(WEIGHT_COLON) || text.match(WEIGHT_PARENS);
+  if (match && match[1].length >= literalEnd) {
+    const weight = parseFloat(match[2]);
+    if (weight > 0) return { word: match[1].trim(), weight };
+  }
+  return { word: text, weight: 1 };
+}
+
+// Merge duplicate words, summing their weights and keeping first-seen order
+export function mergeWordEntries(entries: WordEntry[]): WordEntry[] {
+  const merged = new Map<string, WordEntry>();
+  entries.forEach((entry) => {
+    const existing = merged.get(entry.word);
+    if (existing) {
+      existing.weight += entry.weight;
+    } else {
+      merged.set(entry.word, { ...entry });
+    }
+  });
+  return Array.from(merged.values());
+}
+
+export function getWeightRange(entries: WordEntry[]): {
+  min: number;
+  max: number;
+} {
+  const weights = entries.map((e) => e.weight);
+  return { min: Math.min(...weights), max: Math.max(...weights) };
+}
+
+const SCALE_FUNCTIONS: Record<SizeScale, (value: number) => number> = {
+  linear: (value) => value,
+  log: (value) => Math.log(value),
+  sqrt: (value) => Math.sqrt(value),
+};
+
+// Map a weight onto the font range using the chosen curve
+export function getWeightedFontSize(
+  weight: number,
+  weightRange: { min: number; max: number },
+  minFontSize: number,
+  maxFontSize: number,
+  scale: SizeScale
+): number {
+  const fn = SCALE_FUNCTIONS[scale] || SCALE_FUNCTIONS.linear;
+  const low = fn(weightRange.min);
+  const high = fn(weightRange.max);
+  const t = high > low ? (fn(weight) - low) / (high - low) : 1;
+  return Math.round(minFontSize + t * (maxFontSize - minFontSize));
+}
+
+// Apply casing transformation to text
+export function applyCasing(text: string, casing: Casing): string {
+  switch (casing) {
+    case "uppercase":
+      return text.toUpperCase();
+    case "lowercase":
+      return text.toLowerCase();
+    case "title-case": {
+      const words = text.toLowerCase().split(" ");
+      if (words.length === 1) {
+        return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+      } else {
+        const smallWords = [
+          "a",
+          "an",
+          "and",
+          "as",
+          "at",
+          "but",
+          "by",
+          "for",
+          "in",
+          "of",
+          "on",
+          "or",
+          "the",
+          "to",
+          "with",
+        ];
+        return words
+          .map((word, index) => {
+            if (
+              index === 0 ||
+              index === words.length - 1 ||
+              !smallWords.includes(word)
+            ) {
+              return word.charAt(0).toUpperCase() + word.slice(1);
+            }
+            return word;
+          })
+          .join(" ");
+      }
+    }
+    case "as-is":
+    default:
+      return text;
+  }
+}
+
+// Pick an entry at random, heavier words being picked more often
+export function pickWeightedEntry(
+  entries: WordEntry[],
+  random: RandomFn
+): WordEntry {
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  let remaining = random() * total;
+  for (const entry of entries) {
+    remaining -= entry.weight;
+    if (remaining < 0) return entry;
+  }
+  return entries[entries.length - 1];
+}
@@ -0,0 +1,171 @@
+import { App, Notice, PaneType, TFile, moment, normalizePath } from "obsidian";
+import { JournalTarget } from "./settings";
+
+// The core search and daily notes plugins have no public typings
+interface GlobalSearchPlugin {
+  instance?: { openGlobalSearch(query: string): void };
+}
+
+interface DailyNotesPlugin {
+  enabled?: boolean;
+  instance?: { options?: { folder?: string; format?: string } };
+}
+
+interface InternalPlugins {
+  getPluginById(id: "global-search"): GlobalSearchPlugin | null;
+  getPluginById(id: "daily-notes"): DailyNotesPlugin | null;
+}
+
+function getInternalPlugins(app: App): InternalPlugins | undefined {
+  return (app as App & { internalPlugins?: InternalPlugins }).internalPlugins;
+}
+
+// Open the search pane with a query, returns false when core search is off
+export function openGlobalSearch(app: App, query: string): boolean {
+  const search = getInternalPlugins(app)?.getPluginById("global-search");
+  if (!search?.instance) return false;
+  search.instance.openGlobalSearch(query);
+  return true;
+}
+
+export interface NoteForWordOptions {
+  create: boolean;
+  folder: string;
+  template: string;
+  sourcePath: string;
+}
+
+// Characters Obsidian doesn't allow in note names
+function toNoteName(word: string): string {
+  return word
+    .replace(/[\\/:*?"<>|#^[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function fillTemplate(template: string, word: string): string {
+  return template
+    .replace(/{{\s*(?:word|title)\s*}}/gi, word)
+    .replace(/{{\s*date\s*}}/gi, moment().format("YYYY-MM-DD"))
+    .replace(/{{\s*time\s*}}/gi, moment().format("HH:mm"));
+}
+
+async function readTemplate(app: App, path: string): Promise<string> {
+  if (!path) return "";
+  const linkpath = path.replace(/\.md$/, "");
+  const file = app.metadataCache.getFirstLinkpathDest(linkpath, "");
+  if (!file) {
+    new Notice(`Template "${path}" not found, creating an empty note`);
+    return "";
+  }
+  return app.vault.cachedRead(file);
+}
+
+// Open the note named after a word, creating it from a template if asked to
+export async function openNoteForWord(
+  app: App,
+  word: string,
+  options: NoteForWordOptions,
+  newLeaf: PaneType | boolean = false
+): Promise<void> {
+  const name = toNoteName(word);
+  if (!name) return;
+
+  let file = app.metadataCache.getFirstLinkpathDest(name, options.sourcePath);
+  if (!file) {
+    if (!options.create) {
+      new Notice(`No note named "${name}"`);
+      return;
+    }
+    const folder = options.folder
+      ? normalizePath(options.folder)
+      : app.fileManager.getNewFileParent(options.sourcePath).path;
+    const path = normalizePath(`${folder}/${name}.md`);
+    if (options.folder && !app.vault.getAbstractFileByPath(folder)) {
+      await app.vault.createFolder(folder);
+    }
+    const template = await readTemplate(app, options.template);
+    file = await app.vault.create(path, fillTemplate(template, word));
+  }
+
+  await app.workspace.getLeaf(newLeaf).openFile(file);
+}
+
+// Replace the lines between a code block's fences in a note
+export async function replaceCodeBlockSource(
+  app: App,
+  sourcePath: string,
+  lineStart: number,
+  lineEnd: number,
+  source: string
+): Promise<void> {
+  const file = app.vault.getAbstractFileByPath(sourcePath);
+  if (!(file instanceof TFile)) {
+    throw new Error(`Note "${sourcePath}" not found`);
+  }
+
+  const lines = (await app.vault.read(file)).split("\n");
+  lines.splice(lineStart + 1, lineEnd - lineStart - 1, ...source.split("\n"));
+  await app.vault.modify(file, lines.join("\n"));
+}
+
+export interface JournalOptions {
+  target: JournalTarget;
+  notePath: string;
+}
+
+// Today's daily note path from the core plugin's settings, or null when
+// the plugin is off
+function getDailyNotePath(app: App): string | null {
+  const dailyNotes = getInternalPlugins(app)?.getPluginById("daily-notes");
+  if (!dailyNotes?.enabled) return null;
+  const options = dailyNotes.instance?.options || {};
+  const name = moment().format(options.format || "YYYY-MM-DD");
+  return normalizePath(`${options.folder || ""}/${name}.md`);
+}
+
+// Append a chosen word, with the time and the note it came from, to the
+// journal note or today's daily note. Either is created if it's missing.
+export async function logWordToJournal(
+  app: App,
+  word: string,
+  sourcePath: string,
+  options: JournalOptions
+): Promise<void> {
+  const path =
+    options.target === "daily"
+      ? getDailyNotePath(app)
+      : normalizePath(options.notePath.replace(/(\.md)?$/, ".md"));
+  if (!path) {
+    throw new Error("Enable the core daily notes plugin to log to daily notes");
+  }
+
+  let file = app.vault.getAbstractFileByPath(path);
+  if (!file) {
+    const folder = path.slice(0, path.lastIndexOf("/"));
+    if (folder && !app.vault.getAbstractFileByPath(folder)) {
+      await app.vault.createFolder(folder);
+    }
+    file = await app.vault.create(path, "");
+  }
+  if (!(file instanceof TFile)) {
+    throw new Error(`"${path}" is not a note`);
+  }
+
+  // Daily notes already say which day it is
+  const time = moment().format(
+    options.target === "daily" ? "HH:mm" : "YYYY-MM-DD HH:mm"
+  );
+  const source = app.vault.getAbstractFileByPath(sourcePath);
+  const from =
+    source instanceof TFile
+      ? ` from ${app.fileManager.generateMarkdownLink(source, path)}`
+      : "";
+
+  const content = await app.vault.read(file);
+  const separator = content === "" || content.endsWith("\n") ? "" : "\n";
+  await app.vault.modify(
+    file,
+    `${content}${separator}- ${time} **${word}**${from}\n`
+  );
+}